@@ -2,9 +2,15 @@ import Docker from 'dockerode';
 import path from 'path';
 import fs from 'fs';
 import { ChainName } from '@hyperlane-xyz/sdk';
+import { getAgentLabels, getAvailableMetricsPort } from './agents.js';
 import logger from './logger.js';
 import { createDirectory } from './utils.js';
 import { getLatestImageTag, fetchImageTags } from './gcr.js';
+import {
+  getValidatorSignaturesDir,
+  getValidatorSignaturesMount,
+} from './RunValidator.js';
+import { getS3EndpointEnv } from './checkpointSyncer.js';
 
 const docker = new Docker();
 
@@ -13,6 +19,8 @@ export interface RelayerConfig {
   relayerKey: string;
   configFilePath: string;
   validatorChainName: string;
+  validatorChains?: ChainName[];
+  s3Endpoint?: string;
 }
 
 const DEFAULT_RELAYER_TAG = 'agents-v1.4.0';
@@ -22,8 +30,10 @@ export class RelayerRunner {
   private readonly relayerKey: string;
   private readonly configFilePath: string;
   private readonly relayerDbPath: string;
-  private readonly validatorSignaturesDir: string;
   private readonly validatorChainName: string;
+  // Origin chains whose local validator checkpoints are mounted
+  private readonly validatorChains: ChainName[];
+  private readonly s3Endpoint?: string;
   private containerId: string | null = null;
   private latestTag: string = DEFAULT_RELAYER_TAG;
 
@@ -31,7 +41,9 @@ export class RelayerRunner {
     relayChains: string[],
     relayerKey: string,
     configFilePath: string,
-    validatorChainName: string
+    validatorChainName: string,
+    validatorChains: ChainName[] = [validatorChainName],
+    s3Endpoint?: string
   ) {
     this.relayChains = relayChains;
     this.relayerKey = relayerKey;
@@ -41,15 +53,15 @@ export class RelayerRunner {
         process.env.CACHE_DIR || process.env.HOME!
       }/.hyperlane-mcp/logs/hyperlane_db_relayer`
     );
-    this.validatorSignaturesDir = path.resolve(
-      `${
-        process.env.CACHE_DIR || process.env.HOME!
-      }/.hyperlane-mcp/logs/hyperlane-validator-signatures-${validatorChainName}`
-    );
     this.validatorChainName = validatorChainName;
+    this.validatorChains = validatorChains;
+    this.s3Endpoint = s3Endpoint;
 
     // Ensure required directories exist
     createDirectory(this.relayerDbPath);
+    for (const chain of validatorChains) {
+      createDirectory(getValidatorSignaturesDir(chain));
+    }
   }
 
   private async initializeLatestTag(): Promise<void> {
@@ -119,9 +131,22 @@ export class RelayerRunner {
         ', '
       )}...`
     );
+    const metricsPort = await getAvailableMetricsPort();
     const container = await docker.createContainer({
       Image: `gcr.io/abacus-labs-dev/hyperlane-agent:${this.latestTag}`,
-      Env: [`CONFIG_FILES=${this.configFilePath}`],
+      // Keys go in Env so they don't show up in the container's command
+      Env: [
+        `CONFIG_FILES=${this.configFilePath}`,
+        `HYP_DEFAULTSIGNER_KEY=${this.relayerKey}`,
+        ...getS3EndpointEnv(this.s3Endpoint),
+      ],
+      Labels: getAgentLabels({
+        role: 'relayer',
+        chains: this.relayChains,
+        imageTag: this.latestTag,
+        configFilePath: this.configFilePath,
+        metricsPort,
+      }),
       HostConfig: {
         NetworkMode: 'host',
         Mounts: [
@@ -141,24 +166,26 @@ export class RelayerRunner {
             Target: '/hyperlane_db',
             Type: 'bind',
           },
-          {
-            Source: this.validatorSignaturesDir,
-            Target: '/validator-signatures',
-            Type: 'bind',
+          ...this.validatorChains.map((chain) => ({
+            Source: getValidatorSignaturesDir(chain),
+            Target: getValidatorSignaturesMount(chain),
+            Type: 'bind' as const,
             ReadOnly: true,
-          },
+          })),
         ],
       },
       Cmd: [
         './relayer',
         '--db',
         '/hyperlane_db',
+        '--log.format',
+        'json',
+        '--metricsPort',
+        String(metricsPort),
         '--relayChains',
         this.relayChains.join(','),
         '--allowLocalCheckpointSyncers',
         'true',
-        '--defaultSigner.key',
-        this.relayerKey,
       ],
       Tty: true,
       NetworkDisabled: false,
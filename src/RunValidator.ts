@@ -3,6 +3,12 @@ import Docker from 'dockerode';
 import fs from 'fs';
 import path from 'path';
 import { fetchImageTags, getLatestImageTag } from './gcr.js';
+import { getAgentLabels, getAvailableMetricsPort } from './agents.js';
+import {
+  CheckpointSyncerConfig,
+  getCheckpointStorageLocation,
+  getCheckpointSyncerContainerOptions,
+} from './checkpointSyncer.js';
 import logger from './logger.js';
 import { createDirectory } from './utils.js';
 
@@ -11,23 +17,52 @@ export interface ValidatorConfig {
   chainName: ChainName;
   validatorKey: string;
   configFilePath: string;
+  checkpointSyncer?: CheckpointSyncerConfig;
 }
 
 const DEFAULT_VALIDATOR_TAG = 'agents-v1.4.0';
 
+// Where the signatures directories are mounted in validator and relayer
+// containers, one per origin chain so a relayer can mount several. The
+// validator announces its directory as a file:// storage location.
+export const VALIDATOR_SIGNATURES_MOUNT = '/validator-signatures';
+
+export function getValidatorSignaturesMount(chainName: ChainName): string {
+  return `${VALIDATOR_SIGNATURES_MOUNT}/${chainName}`;
+}
+
+/**
+ * Directory the validator's localStorage checkpoint syncer writes signed
+ * checkpoints to for the given origin chain
+ */
+export function getValidatorSignaturesDir(chainName: ChainName): string {
+  return path.resolve(
+    process.env.CACHE_DIR || process.env.HOME!,
+    '.hyperlane-mcp/logs',
+    `hyperlane-validator-signatures-${chainName}`
+  );
+}
+
 export class ValidatorRunner {
   private readonly chainName: ChainName;
   private readonly validatorKey: string;
   private readonly configFilePath: string;
   private readonly validatorSignaturesDir: string;
   private readonly validatorDbPath: string;
+  private readonly checkpointSyncer: CheckpointSyncerConfig;
   private containerId: string | null = null;
   private latestTag: string = DEFAULT_VALIDATOR_TAG;
 
-  constructor(chainName: string, validatorKey: string, configFilePath: string) {
+  constructor(
+    chainName: string,
+    validatorKey: string,
+    configFilePath: string,
+    checkpointSyncer: CheckpointSyncerConfig = { type: 'localStorage' }
+  ) {
     this.chainName = chainName;
     this.validatorKey = validatorKey;
     this.configFilePath = configFilePath;
+    this.checkpointSyncer = checkpointSyncer;
 
     const logsPath = path.join(
       process.env.CACHE_DIR || process.env.HOME!,
@@ -35,9 +70,7 @@ export class ValidatorRunner {
     );
     createDirectory(logsPath);
 
-    this.validatorSignaturesDir = path.resolve(
-      `${logsPath}/hyperlane-validator-signatures-${chainName}`
-    );
+    this.validatorSignaturesDir = getValidatorSignaturesDir(chainName);
     this.validatorDbPath = path.resolve(
       `${logsPath}/hyperlane_db_validator_${chainName}`
     );
@@ -115,9 +148,32 @@ export class ValidatorRunner {
     logger.info(
       `Creating container for validator on chain: ${this.chainName}...`
     );
+    const metricsPort = await getAvailableMetricsPort();
+    const signaturesMount = getValidatorSignaturesMount(this.chainName);
+    const checkpointSyncer = getCheckpointSyncerContainerOptions({
+      config: this.checkpointSyncer,
+      localPath: signaturesMount,
+      signaturesDir: this.validatorSignaturesDir,
+    });
     const container = await docker.createContainer({
       Image: `gcr.io/abacus-labs-dev/hyperlane-agent:${this.latestTag}`,
-      Env: [`CONFIG_FILES=${this.configFilePath}`],
+      // Keys go in Env so they don't show up in the container's command
+      Env: [
+        `CONFIG_FILES=${this.configFilePath}`,
+        `HYP_VALIDATOR_KEY=${this.validatorKey}`,
+        ...checkpointSyncer.env,
+      ],
+      Labels: getAgentLabels({
+        role: 'validator',
+        chains: [this.chainName],
+        imageTag: this.latestTag,
+        configFilePath: this.configFilePath,
+        metricsPort,
+        storageLocation: getCheckpointStorageLocation(
+          this.checkpointSyncer,
+          signaturesMount
+        ),
+      }),
       HostConfig: {
         NetworkMode: 'host',
         Mounts: [
@@ -137,25 +193,20 @@ export class ValidatorRunner {
             Target: '/hyperlane_db',
             Type: 'bind',
           },
-          {
-            Source: this.validatorSignaturesDir,
-            Target: '/validator-signatures',
-            Type: 'bind',
-          },
+          ...checkpointSyncer.mounts,
         ],
       },
       Cmd: [
         './validator',
         '--db',
         '/hyperlane_db',
+        '--log.format',
+        'json',
+        '--metricsPort',
+        String(metricsPort),
         '--originChainName',
         this.chainName,
-        '--checkpointSyncer.type',
-        'localStorage',
-        '--checkpointSyncer.path',
-        '/validator-signatures',
-        '--validator.key',
-        this.validatorKey,
+        ...checkpointSyncer.cmd,
       ],
       Tty: true,
       NetworkDisabled: false,
@@ -0,0 +1,322 @@
+import { ChainName, MultiProvider } from '@hyperlane-xyz/sdk';
+import { sleep } from '@hyperlane-xyz/utils';
+import { AgentInfo } from './agents.js';
+import logger from './logger.js';
+
+const METRICS_TIMEOUT_MS = 5_000;
+
+export type AgentHealthIssueCode =
+  | 'NOT_RUNNING'
+  | 'METRICS_UNAVAILABLE'
+  | 'LAGGING'
+  | 'STALE'
+  | 'CHECKPOINT_LAGGING'
+  | 'NO_WALLET_BALANCE';
+
+export interface AgentHealthIssue {
+  code: AgentHealthIssueCode;
+  chain?: ChainName;
+  message: string;
+}
+
+export interface MetricSample {
+  name: string;
+  labels: Record<string, string>;
+  value: number;
+}
+
+export interface ChainHealth {
+  chain: ChainName;
+  chainTip?: number;
+  // Latest block the agent has seen and the lowest block indexed across the
+  // contracts it syncs
+  agentBlockHeight?: number;
+  indexedBlockHeight?: number;
+  blockLag?: number;
+  indexedBlockHeights: Record<string, number>;
+}
+
+export interface AgentHealth {
+  containerId: string;
+  role: AgentInfo['role'];
+  state: string;
+  metricsPort?: number;
+  healthy: boolean;
+  issues: AgentHealthIssue[];
+  chains: ChainHealth[];
+  // Validators only: latest checkpoint index observed on the merkle tree hook
+  // and the latest one signed
+  checkpoints?: { observed?: number; signed?: number };
+  // Relayers only: messages processed and waiting in the submitter queues,
+  // keyed by destination chain
+  messages?: {
+    processed: Record<ChainName, number>;
+    pending: Record<ChainName, number>;
+  };
+  walletBalances: {
+    chain: ChainName;
+    wallet?: string;
+    symbol?: string;
+    balance: number;
+  }[];
+}
+
+/**
+ * Parses the Prometheus text exposition format, comments and samples that
+ * aren't numbers are skipped
+ */
+export function parsePrometheusMetrics(text: string): MetricSample[] {
+  const samples: MetricSample[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^([a-zA-Z_:][\w:]*)(?:\{(.*)\})?\s+(\S+)/);
+    if (!match) continue;
+
+    const value = Number(match[3]);
+    if (Number.isNaN(value)) continue;
+
+    const labels: Record<string, string> = {};
+    for (const [, key, labelValue] of (match[2] ?? '').matchAll(
+      /(\w+)="((?:[^"\\]|\\.)*)"/g
+    )) {
+      labels[key] = labelValue.replace(/\\(.)/g, '$1');
+    }
+    samples.push({ name: match[1], labels, value });
+  }
+  return samples;
+}
+
+async function scrapeMetrics(port: number): Promise<MetricSample[]> {
+  const resp = await fetch(`http://localhost:${port}/metrics`, {
+    signal: AbortSignal.timeout(METRICS_TIMEOUT_MS),
+  });
+  if (!resp.ok) {
+    throw new Error(`Metrics endpoint returned ${resp.status}`);
+  }
+  return parsePrometheusMetrics(await resp.text());
+}
+
+function getSamples(
+  samples: MetricSample[],
+  name: string,
+  labels: Record<string, string> = {}
+): MetricSample[] {
+  return samples.filter(
+    (sample) =>
+      sample.name === name &&
+      Object.entries(labels).every(
+        ([key, value]) => sample.labels[key] === value
+      )
+  );
+}
+
+function sumByLabel(
+  samples: MetricSample[],
+  label: string
+): Record<string, number> {
+  const sums: Record<string, number> = {};
+  for (const sample of samples) {
+    const key = sample.labels[label];
+    if (key) sums[key] = (sums[key] ?? 0) + sample.value;
+  }
+  return sums;
+}
+
+async function getChainHealth(
+  chain: ChainName,
+  samples: MetricSample[],
+  multiProvider: MultiProvider
+): Promise<ChainHealth> {
+  const indexedBlockHeights = Object.fromEntries(
+    getSamples(samples, 'hyperlane_contract_sync_block_height', { chain }).map(
+      (sample) => [sample.labels.data_type ?? 'unknown', sample.value]
+    )
+  );
+  const heights = Object.values(indexedBlockHeights);
+  const indexedBlockHeight =
+    heights.length > 0 ? Math.min(...heights) : undefined;
+
+  let chainTip: number | undefined;
+  try {
+    chainTip = await multiProvider.getProvider(chain).getBlockNumber();
+  } catch (error) {
+    logger.error(`Error fetching the block number of ${chain}: ${error}`);
+  }
+
+  return {
+    chain,
+    chainTip,
+    agentBlockHeight: getSamples(samples, 'hyperlane_block_height', {
+      chain,
+    })[0]?.value,
+    indexedBlockHeight,
+    blockLag:
+      chainTip !== undefined && indexedBlockHeight !== undefined
+        ? chainTip - indexedBlockHeight
+        : undefined,
+    indexedBlockHeights,
+  };
+}
+
+/**
+ * Scrapes the agent's Prometheus endpoint and compares the indexed block
+ * heights with the chain tips. With `sampleSeconds` the endpoint is scraped a
+ * second time and chains whose indexing didn't move while the tip did are
+ * flagged as stale.
+ */
+export async function getAgentHealth({
+  agent,
+  multiProvider,
+  maxBlockLag,
+  sampleSeconds = 0,
+}: {
+  agent: AgentInfo;
+  multiProvider: MultiProvider;
+  maxBlockLag: number;
+  sampleSeconds?: number;
+}): Promise<AgentHealth> {
+  const health: AgentHealth = {
+    containerId: agent.containerId,
+    role: agent.role,
+    state: agent.state,
+    metricsPort: agent.metricsPort,
+    healthy: false,
+    issues: [],
+    chains: [],
+    walletBalances: [],
+  };
+
+  if (agent.state !== 'running') {
+    health.issues.push({
+      code: 'NOT_RUNNING',
+      message: `The ${agent.role} container is ${agent.state}`,
+    });
+    return health;
+  }
+  if (!agent.metricsPort) {
+    health.issues.push({
+      code: 'METRICS_UNAVAILABLE',
+      message: `The ${agent.role} container was started without a metrics port, run it again to get one`,
+    });
+    return health;
+  }
+
+  let samples: MetricSample[];
+  try {
+    samples = await scrapeMetrics(agent.metricsPort);
+  } catch (error) {
+    health.issues.push({
+      code: 'METRICS_UNAVAILABLE',
+      message: `Could not scrape metrics on port ${agent.metricsPort}: ${error}`,
+    });
+    return health;
+  }
+
+  health.chains = await Promise.all(
+    agent.chains.map((chain) => getChainHealth(chain, samples, multiProvider))
+  );
+
+  if (sampleSeconds > 0) {
+    await sleep(sampleSeconds * 1000);
+    const laterSamples = await scrapeMetrics(agent.metricsPort);
+    for (const chainHealth of health.chains) {
+      const later = await getChainHealth(
+        chainHealth.chain,
+        laterSamples,
+        multiProvider
+      );
+      const tipMoved =
+        later.chainTip !== undefined &&
+        chainHealth.chainTip !== undefined &&
+        later.chainTip > chainHealth.chainTip;
+      if (
+        tipMoved &&
+        later.indexedBlockHeight !== undefined &&
+        later.indexedBlockHeight === chainHealth.indexedBlockHeight
+      ) {
+        health.issues.push({
+          code: 'STALE',
+          chain: chainHealth.chain,
+          message: `Indexing on ${chainHealth.chain} stayed at block ${later.indexedBlockHeight} for ${sampleSeconds}s while the chain moved from ${chainHealth.chainTip} to ${later.chainTip}`,
+        });
+      }
+    }
+  }
+
+  for (const {
+    chain,
+    blockLag,
+    indexedBlockHeight,
+    chainTip,
+  } of health.chains) {
+    if (blockLag !== undefined && blockLag > maxBlockLag) {
+      health.issues.push({
+        code: 'LAGGING',
+        chain,
+        message: `Indexed block ${indexedBlockHeight} on ${chain} is ${blockLag} blocks behind the chain tip ${chainTip}`,
+      });
+    }
+  }
+
+  if (agent.role === 'validator') {
+    const [chain] = agent.chains;
+    health.checkpoints = {
+      observed: getSamples(samples, 'hyperlane_latest_checkpoint', {
+        chain,
+        phase: 'validator_observed',
+      })[0]?.value,
+      signed: getSamples(samples, 'hyperlane_latest_checkpoint', {
+        chain,
+        phase: 'validator_processed',
+      })[0]?.value,
+    };
+    const { observed, signed } = health.checkpoints;
+    if (observed !== undefined && (signed === undefined || signed < observed)) {
+      health.issues.push({
+        code: 'CHECKPOINT_LAGGING',
+        chain,
+        message: `Latest checkpoint signed (${
+          signed ?? 'none'
+        }) is behind the latest observed on the merkle tree hook (${observed})`,
+      });
+    }
+  } else {
+    health.messages = {
+      processed: sumByLabel(
+        [
+          ...getSamples(samples, 'hyperlane_messages_processed_count'),
+          ...getSamples(samples, 'hyperlane_operations_processed_count', {
+            phase: 'confirmed',
+          }),
+        ],
+        'remote'
+      ),
+      pending: sumByLabel(
+        getSamples(samples, 'hyperlane_submitter_queue_length'),
+        'remote'
+      ),
+    };
+  }
+
+  health.walletBalances = getSamples(samples, 'hyperlane_wallet_balance').map(
+    ({ labels, value }) => ({
+      chain: labels.chain,
+      wallet: labels.wallet_address,
+      symbol: labels.token_symbol,
+      balance: value,
+    })
+  );
+  for (const { chain, wallet, balance } of health.walletBalances) {
+    if (balance <= 0) {
+      health.issues.push({
+        code: 'NO_WALLET_BALANCE',
+        chain,
+        message: `Wallet ${
+          wallet ?? ''
+        } on ${chain} has no balance to pay for transactions`,
+      });
+    }
+  }
+
+  health.healthy = health.issues.length === 0;
+  return health;
+}
@@ -0,0 +1,201 @@
+import Docker from 'dockerode';
+import { AgentInfo } from './agents.js';
+
+const docker = new Docker();
+
+// Most severe first, a level filter keeps the given level and the ones above
+export const AGENT_LOG_LEVELS = [
+  'ERROR',
+  'WARN',
+  'INFO',
+  'DEBUG',
+  'TRACE',
+] as const;
+export type AgentLogLevel = (typeof AGENT_LOG_LEVELS)[number];
+
+export type AgentErrorCategory =
+  | 'RPC_FAILURE'
+  | 'INSUFFICIENT_FUNDS'
+  | 'VALIDATOR_NOT_ANNOUNCED'
+  | 'OTHER';
+
+// Checked in order, the first matching pattern categorises a log line
+const ERROR_PATTERNS: [AgentErrorCategory, RegExp][] = [
+  ['INSUFFICIENT_FUNDS', /insufficient funds|insufficient balance/i],
+  [
+    'VALIDATOR_NOT_ANNOUNCED',
+    /not announced|announce|no storage location|unable to reach quorum/i,
+  ],
+  [
+    'RPC_FAILURE',
+    /rpc|provider|connection (refused|reset|closed)|timed out|timeout|too many requests|service unavailable/i,
+  ],
+];
+
+const MAX_SAMPLE_LENGTH = 300;
+
+// Lines returned when neither a tail nor a time window is given
+const DEFAULT_TAIL = 200;
+// A level filter reads this many lines per line returned, up to the cap, so
+// the log of a long running agent isn't read into memory at once
+const LEVEL_FILTER_READ_FACTOR = 50;
+const MAX_LEVEL_FILTER_READ = 100_000;
+
+export interface AgentLogLine {
+  timestamp?: string;
+  level?: AgentLogLevel;
+  target?: string;
+  message: string;
+  // Structured fields of the line besides the message
+  fields?: Record<string, unknown>;
+}
+
+export interface AgentErrorSummary {
+  category: AgentErrorCategory;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  sample: string;
+}
+
+/**
+ * Parses a line of the agent's JSON log format (`--log.format json`), lines
+ * that aren't JSON, e.g. from agents started with another format, are kept as
+ * plain messages without a level
+ */
+export function parseAgentLogLine(line: string): AgentLogLine {
+  if (!line.startsWith('{')) return { message: line };
+  try {
+    const {
+      timestamp,
+      level,
+      target,
+      fields: { message, ...fields } = {},
+    } = JSON.parse(line);
+    return {
+      timestamp,
+      level: level?.toUpperCase(),
+      target,
+      message: String(message ?? ''),
+      fields: Object.keys(fields).length > 0 ? fields : undefined,
+    };
+  } catch {
+    return { message: line };
+  }
+}
+
+function getErrorCategory(line: AgentLogLine): AgentErrorCategory {
+  const text = `${line.message} ${JSON.stringify(line.fields ?? {})}`;
+  return (
+    ERROR_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'OTHER'
+  );
+}
+
+/**
+ * Groups the warnings and errors by category, most frequent first
+ */
+export function summarizeAgentErrors(
+  lines: AgentLogLine[]
+): AgentErrorSummary[] {
+  const summaries = new Map<AgentErrorCategory, AgentErrorSummary>();
+  for (const line of lines) {
+    if (line.level !== 'ERROR' && line.level !== 'WARN') continue;
+
+    const category = getErrorCategory(line);
+    const summary = summaries.get(category);
+    if (summary) {
+      summary.count++;
+      summary.lastSeen = line.timestamp ?? summary.lastSeen;
+      continue;
+    }
+    summaries.set(category, {
+      category,
+      count: 1,
+      firstSeen: line.timestamp,
+      lastSeen: line.timestamp,
+      sample: `${line.message} ${
+        line.fields ? JSON.stringify(line.fields) : ''
+      }`
+        .trim()
+        .slice(0, MAX_SAMPLE_LENGTH),
+    });
+  }
+
+  return [...summaries.values()].sort((a, b) => b.count - a.count);
+}
+
+// Containers without a TTY multiplex stdout and stderr in frames with an
+// 8 byte header holding the stream type and the frame length
+function demuxLogs(logs: Buffer): string {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset + 8 <= logs.length) {
+    const length = logs.readUInt32BE(offset + 4);
+    chunks.push(logs.subarray(offset + 8, offset + 8 + length));
+    offset += 8 + length;
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Reads the logs of an agent container, the last `tail` lines or the ones
+ * between `since` and `until`, keeping lines at `level` or more severe. Without
+ * a tail or a time window the last 200 lines are returned. With a level the
+ * lines are filtered before the tail is taken, so the tail counts matching
+ * lines only. Only the last 50 lines per line requested (at most 100000) of the
+ * log or window are filtered then; the third element tells whether that cap
+ * was hit.
+ */
+export async function getAgentLogs({
+  agent,
+  tail,
+  since,
+  until,
+  level,
+}: {
+  agent: AgentInfo;
+  tail?: number;
+  since?: Date;
+  until?: Date;
+  level?: AgentLogLevel;
+}): Promise<[AgentLogLine[], AgentErrorSummary[], boolean]> {
+  if (tail === undefined && !since && !until) tail = DEFAULT_TAIL;
+
+  const readLimit = level
+    ? Math.min(
+        (tail ?? DEFAULT_TAIL) * LEVEL_FILTER_READ_FACTOR,
+        MAX_LEVEL_FILTER_READ
+      )
+    : tail;
+
+  const container = docker.getContainer(agent.containerId);
+  const { Config } = await container.inspect();
+  const logs = await container.logs({
+    follow: false,
+    stdout: true,
+    stderr: true,
+    tail: readLimit,
+    since: since ? Math.floor(since.getTime() / 1000) : undefined,
+    until: until ? Math.ceil(until.getTime() / 1000) : undefined,
+  });
+
+  const lines = (Config.Tty ? logs.toString('utf8') : demuxLogs(logs))
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map(parseAgentLogLine);
+
+  const maxLevel = level ? AGENT_LOG_LEVELS.indexOf(level) : undefined;
+  const filtered =
+    maxLevel === undefined
+      ? lines
+      : lines.filter(
+          (line) =>
+            line.level && AGENT_LOG_LEVELS.indexOf(line.level) <= maxLevel
+        );
+
+  return [
+    tail === undefined ? filtered : filtered.slice(-tail),
+    summarizeAgentErrors(lines),
+    !!level && readLimit !== undefined && lines.length >= readLimit,
+  ];
+}
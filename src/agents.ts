@@ -0,0 +1,224 @@
+import { ChainName } from '@hyperlane-xyz/sdk';
+import { createHash } from 'crypto';
+import Docker from 'dockerode';
+import fs from 'fs';
+import net from 'net';
+import logger from './logger.js';
+
+const docker = new Docker();
+
+export const AGENT_ROLES = ['validator', 'relayer'] as const;
+export type AgentRole = (typeof AGENT_ROLES)[number];
+
+// Agent containers are found again through these labels, so they can be
+// managed after the server restarts
+const LABEL_PREFIX = 'xyz.hyperlane.mcp';
+export const AGENT_LABELS = {
+  role: `${LABEL_PREFIX}.role`,
+  chains: `${LABEL_PREFIX}.chains`,
+  imageTag: `${LABEL_PREFIX}.image-tag`,
+  configHash: `${LABEL_PREFIX}.config-hash`,
+  metricsPort: `${LABEL_PREFIX}.metrics-port`,
+  storageLocation: `${LABEL_PREFIX}.storage-location`,
+} as const;
+
+// Agents run with host networking, so every container gets its own metrics
+// port counting up from the agents' default
+const DEFAULT_METRICS_PORT = 9090;
+const MAX_METRICS_PORT = DEFAULT_METRICS_PORT + 1000;
+
+export interface AgentInfo {
+  containerId: string;
+  name: string;
+  role: AgentRole;
+  chains: ChainName[];
+  imageTag: string;
+  configHash: string;
+  // Port of the Prometheus endpoint, unset for containers started without one
+  metricsPort?: number;
+  // Validators only: checkpoint storage location they announce
+  storageLocation?: string;
+  // Docker container state, e.g. running, exited or restarting
+  state: string;
+  status: string;
+  createdAt: string;
+}
+
+/**
+ * Labels of an agent container, the config hash tells containers started
+ * with an older agent config apart
+ */
+export function getAgentLabels({
+  role,
+  chains,
+  imageTag,
+  configFilePath,
+  metricsPort,
+  storageLocation,
+}: {
+  role: AgentRole;
+  chains: ChainName[];
+  imageTag: string;
+  configFilePath: string;
+  metricsPort: number;
+  storageLocation?: string;
+}): Record<string, string> {
+  const configHash = createHash('sha256')
+    .update(fs.readFileSync(configFilePath))
+    .digest('hex')
+    .slice(0, 16);
+
+  return {
+    [AGENT_LABELS.role]: role,
+    [AGENT_LABELS.chains]: chains.join(','),
+    [AGENT_LABELS.imageTag]: imageTag,
+    [AGENT_LABELS.configHash]: configHash,
+    [AGENT_LABELS.metricsPort]: String(metricsPort),
+    ...(storageLocation
+      ? { [AGENT_LABELS.storageLocation]: storageLocation }
+      : {}),
+  };
+}
+
+export async function listAgents({
+  role,
+  chain,
+}: {
+  role?: AgentRole;
+  chain?: ChainName;
+} = {}): Promise<AgentInfo[]> {
+  const containers = await docker.listContainers({
+    all: true,
+    filters: {
+      label: [role ? `${AGENT_LABELS.role}=${role}` : AGENT_LABELS.role],
+    },
+  });
+
+  return containers
+    .map((container) => ({
+      containerId: container.Id,
+      name: container.Names[0]?.replace(/^\//, '') ?? '',
+      role: container.Labels[AGENT_LABELS.role] as AgentRole,
+      chains: container.Labels[AGENT_LABELS.chains]?.split(',') ?? [],
+      imageTag: container.Labels[AGENT_LABELS.imageTag] ?? '',
+      configHash: container.Labels[AGENT_LABELS.configHash] ?? '',
+      metricsPort: container.Labels[AGENT_LABELS.metricsPort]
+        ? Number(container.Labels[AGENT_LABELS.metricsPort])
+        : undefined,
+      storageLocation: container.Labels[AGENT_LABELS.storageLocation],
+      state: container.State,
+      status: container.Status,
+      createdAt: new Date(container.Created * 1000).toISOString(),
+    }))
+    .filter((agent) => !chain || agent.chains.includes(chain));
+}
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * Picks the lowest metrics port not taken by another agent container, also a
+ * stopped one that may be restarted, nor by another process on the host
+ */
+export async function getAvailableMetricsPort(): Promise<number> {
+  const usedPorts = new Set(
+    (await listAgents()).map((agent) => agent.metricsPort)
+  );
+  for (let port = DEFAULT_METRICS_PORT; port < MAX_METRICS_PORT; port++) {
+    if (!usedPorts.has(port) && (await isPortFree(port))) return port;
+  }
+  throw new Error(
+    `No free metrics port between ${DEFAULT_METRICS_PORT} and ${MAX_METRICS_PORT}`
+  );
+}
+
+/**
+ * Resolves a single agent container by (a prefix of) its ID, or by role and
+ * chain. Throws when nothing or more than one container matches.
+ */
+export async function findAgent({
+  containerId,
+  role,
+  chain,
+}: {
+  containerId?: string;
+  role?: AgentRole;
+  chain?: ChainName;
+}): Promise<AgentInfo> {
+  if (!containerId && !role && !chain) {
+    throw new Error('Either containerId or a role and chain are required');
+  }
+
+  const agents = (await listAgents({ role, chain })).filter(
+    (agent) => !containerId || agent.containerId.startsWith(containerId)
+  );
+  if (agents.length === 0) {
+    throw new Error(
+      `No agent container found for ${JSON.stringify({
+        containerId,
+        role,
+        chain,
+      })}`
+    );
+  }
+  if (agents.length > 1) {
+    throw new Error(
+      `Several agent containers match, pass the containerId of one of: ${agents
+        .map(
+          (agent) =>
+            `${agent.containerId.slice(0, 12)} (${
+              agent.role
+            } ${agent.chains.join(',')}, ${agent.state})`
+        )
+        .join(', ')}`
+    );
+  }
+
+  return agents[0];
+}
+
+export async function getAgentMounts(
+  agent: AgentInfo
+): Promise<{ source: string; destination: string }[]> {
+  const { Mounts } = await docker.getContainer(agent.containerId).inspect();
+  return Mounts.map(({ Source, Destination }) => ({
+    source: Source,
+    destination: Destination,
+  }));
+}
+
+export async function stopAgent(agent: AgentInfo): Promise<AgentInfo> {
+  if (agent.state === 'running' || agent.state === 'restarting') {
+    logger.info(`Stopping ${agent.role} container ${agent.containerId}...`);
+    await docker.getContainer(agent.containerId).stop();
+  }
+  return findAgent({ containerId: agent.containerId });
+}
+
+export async function restartAgent(agent: AgentInfo): Promise<AgentInfo> {
+  logger.info(`Restarting ${agent.role} container ${agent.containerId}...`);
+  await docker.getContainer(agent.containerId).restart();
+  return findAgent({ containerId: agent.containerId });
+}
+
+/**
+ * Removes an agent container. A running container is only removed with
+ * `force`, the agent's database and checkpoints on the host are kept.
+ */
+export async function removeAgent(
+  agent: AgentInfo,
+  force = false
+): Promise<void> {
+  if (agent.state === 'running' && !force) {
+    throw new Error(
+      `The ${agent.role} container ${agent.containerId} is running, stop it first or pass force`
+    );
+  }
+  logger.info(`Removing ${agent.role} container ${agent.containerId}...`);
+  await docker.getContainer(agent.containerId).remove({ force });
+}
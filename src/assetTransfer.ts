@@ -5,73 +5,489 @@ import {
   HyperlaneCore,
   MultiProtocolProvider,
   MultiProvider,
+  parseTokenConnectionId,
   ProviderType,
+  EthersV5Transaction,
   Token,
   TokenAmount,
+  TokenStandard,
   WarpCore,
   WarpCoreConfig,
+  WarpTxCategory,
 } from "@hyperlane-xyz/sdk";
-import { parseWarpRouteMessage, timeout } from "@hyperlane-xyz/utils";
-import { ContractReceipt } from "ethers";
+import { Address, eqAddress } from "@hyperlane-xyz/utils";
+import { ContractReceipt, ethers } from "ethers";
+import logger from "./logger.js";
+import {
+  MessageDeliveryStatus,
+  waitForMessageDelivery,
+} from "./messageStatus.js";
+import { selfRelayMessage } from "./selfRelay.js";
+import { getCore } from "./utils.js";
 
-export async function assetTransfer({
+type WarpRouteToken = WarpCoreConfig["tokens"][number];
+
+export const AMOUNT_UNITS = ["human", "base"] as const;
+
+// Time an intermediate hop has to be delivered before the next one is sent
+export const DEFAULT_HOP_TIMEOUT_SECONDS = 10 * 60;
+
+export type AmountUnit = (typeof AMOUNT_UNITS)[number];
+
+export interface HopAmount {
+  origin: ChainName;
+  destination: ChainName;
+  symbol: string;
+  // Sent on the origin chain, in base units of the origin token
+  amount: string;
+  humanAmount: string;
+  // Received on the destination chain, in base units of the destination token
+  destinationAmount: string;
+  destinationHumanAmount: string;
+}
+
+export interface WarpRouteTokenSummary {
+  chainName: ChainName;
+  symbol: string;
+  standard: TokenStandard;
+  router?: Address;
+  collateralToken?: Address;
+}
+
+export interface WarpRouteSummary {
+  routeId: string;
+  chains: ChainName[];
+  tokens: WarpRouteTokenSummary[];
+}
+
+export function summarizeWarpRouteToken(
+  token: WarpRouteToken
+): WarpRouteTokenSummary {
+  return {
+    chainName: token.chainName,
+    symbol: token.symbol,
+    standard: token.standard,
+    router: token.addressOrDenom ?? undefined,
+    collateralToken: token.collateralAddressOrDenom ?? undefined,
+  };
+}
+
+export function summarizeWarpRoute(
+  routeId: string,
+  warpCoreConfig: WarpCoreConfig
+): WarpRouteSummary {
+  return {
+    routeId,
+    chains: [...new Set(warpCoreConfig.tokens.map((t) => t.chainName))],
+    tokens: warpCoreConfig.tokens.map(summarizeWarpRouteToken),
+  };
+}
+
+/**
+ * Lists the tokens each hop of a transfer along the chains can be sent from,
+ * narrowed down to the given token per chain. A token is matched by its
+ * router or by the collateral token it wraps.
+ */
+export function getHopTokenCandidates({
+  warpCoreConfig,
+  chains,
+  tokenAddresses = {},
+}: {
+  warpCoreConfig: WarpCoreConfig;
+  chains: ChainName[];
+  tokenAddresses?: Record<ChainName, Address>;
+}): WarpRouteToken[][] {
+  return chains
+    .slice(0, -1)
+    .map((origin, i) =>
+      warpCoreConfig.tokens.filter(
+        (token) =>
+          token.chainName === origin &&
+          token.connections?.some(
+            ({ token: connection }) =>
+              parseTokenConnectionId(connection).chainName === chains[i + 1]
+          ) &&
+          (!tokenAddresses[origin] ||
+            [token.addressOrDenom, token.collateralAddressOrDenom].some(
+              (address) => address && eqAddress(address, tokenAddresses[origin])
+            ))
+      )
+    );
+}
+
+/**
+ * Converts the amount into base units of the token sent on each hop. A human
+ * amount is scaled by the decimals of the first origin token, a base amount is
+ * taken as is. Routers only convert amounts by their configured `scale`: the
+ * origin router multiplies the amount by its scale and the destination router
+ * divides it by its own, routers without one pass the amount through as is.
+ * Every hop forwards what arrived on the previous one.
+ */
+export function getHopAmounts({
   warpCoreConfig,
   chains,
+  hopTokens,
   amount,
+  amountUnit,
+  scales = {},
+}: {
+  warpCoreConfig: WarpCoreConfig;
+  chains: ChainName[];
+  hopTokens: WarpRouteToken[];
+  amount: string;
+  amountUnit: AmountUnit;
+  // Scale of the router on each chain, from the route's deploy config
+  scales?: Record<ChainName, number | undefined>;
+}): HopAmount[] {
+  const hopAmounts: HopAmount[] = [];
+  let baseAmount: ethers.BigNumber;
+  try {
+    baseAmount =
+      amountUnit === "human"
+        ? ethers.utils.parseUnits(amount, hopTokens[0].decimals)
+        : ethers.BigNumber.from(amount);
+  } catch {
+    throw new Error(
+      amountUnit === "human"
+        ? `Invalid amount ${amount}, expected a decimal number with at most ${hopTokens[0].decimals} decimals`
+        : `Invalid amount ${amount}, expected an integer in base units`
+    );
+  }
+  if (baseAmount.lte(0)) {
+    throw new Error(`Amount must be greater than 0, got ${amount}`);
+  }
+
+  for (const [i, token] of hopTokens.entries()) {
+    const destination = chains[i + 1];
+    const connection = token.connections!.find(
+      ({ token: connectionId }) =>
+        parseTokenConnectionId(connectionId).chainName === destination
+    )!;
+    const { addressOrDenom } = parseTokenConnectionId(connection.token);
+    const destinationToken = warpCoreConfig.tokens.find(
+      (t) =>
+        t.chainName === destination &&
+        !!t.addressOrDenom &&
+        eqAddress(t.addressOrDenom, addressOrDenom)
+    );
+    const destinationDecimals = destinationToken?.decimals ?? token.decimals;
+
+    const originScale = scales[chains[i]] ?? 1;
+    const destinationScale = scales[destination] ?? 1;
+    const destinationAmount = baseAmount.mul(originScale).div(destinationScale);
+    if (destinationAmount.isZero()) {
+      throw new Error(
+        `Amount ${baseAmount} rounds down to 0 on ${destination}, whose router scale is ${destinationScale}`
+      );
+    }
+
+    hopAmounts.push({
+      origin: chains[i],
+      destination,
+      symbol: token.symbol,
+      amount: baseAmount.toString(),
+      humanAmount: ethers.utils.formatUnits(baseAmount, token.decimals),
+      destinationAmount: destinationAmount.toString(),
+      destinationHumanAmount: ethers.utils.formatUnits(
+        destinationAmount,
+        destinationDecimals
+      ),
+    });
+    baseAmount = destinationAmount;
+  }
+  return hopAmounts;
+}
+
+export type TransferErrorCode =
+  | "INVALID_RECIPIENT"
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_DESTINATION_COLLATERAL"
+  | "INSUFFICIENT_INTERCHAIN_GAS"
+  | "INVALID_TRANSFER"
+  | "HOP_NOT_DELIVERED"
+  | "HOP_AMOUNT_NOT_RECEIVED";
+
+export interface TransferFailure {
+  error: TransferErrorCode;
+  message: string;
+  origin: ChainName;
+  destination: ChainName;
+  // Errors keyed by field as returned by WarpCore.validateTransfer, or the
+  // message that wasn't delivered
+  details: Record<string, string>;
+}
+
+export interface TransferStep {
+  category: WarpTxCategory;
+  transactionHash?: string;
+  // Unsigned transaction, only set in dry-run mode
+  transaction?: { to?: string; data?: string; value?: string };
+}
+
+export interface QuotedFee {
+  amount: string;
+  humanAmount: string;
+  symbol: string;
+}
+
+export interface HopTransfer {
+  origin: ChainName;
+  destination: ChainName;
+  status: "quoted" | MessageDeliveryStatus;
+  // Sent on the origin chain, in base units of the origin token
+  amount: string;
+  // Arrived on an intermediate chain and forwarded by the next hop, measured
+  // as the change of the signer's balance, next to the amount computed from
+  // the router scales
+  receivedAmount?: string;
+  expectedReceivedAmount?: string;
+  // Set when less than the expected amount arrived
+  warning?: string;
+  steps: TransferStep[];
+  messageId?: string;
+  processTransactionHash?: string;
+  // Interchain gas and local gas quote, only set in dry-run mode
+  fees?: { interchain: QuotedFee; local: QuotedFee };
+}
+
+interface Delivery {
+  transfer: HopTransfer;
+  dispatchTx?: ContractReceipt;
+  message?: DispatchedMessage;
+}
+
+function getTransferErrorCode(
+  errors: Record<string, string>
+): TransferErrorCode {
+  const message = Object.values(errors).join(" ");
+  if (errors.recipient) return "INVALID_RECIPIENT";
+  if (message.includes("collateral on destination")) {
+    return "INSUFFICIENT_DESTINATION_COLLATERAL";
+  }
+  if (message.includes("interchain gas")) return "INSUFFICIENT_INTERCHAIN_GAS";
+  if (message.includes("Insufficient balance")) return "INSUFFICIENT_BALANCE";
+  return "INVALID_TRANSFER";
+}
+
+function toQuotedFee(quote: TokenAmount): QuotedFee {
+  return {
+    amount: quote.amount.toString(),
+    humanAmount: quote.getDecimalFormattedAmount().toString(),
+    symbol: quote.token.symbol,
+  };
+}
+
+/**
+ * Sends the amount along the chains hop by hop. The token sent on each hop is
+ * looked up by its router in `routers` when the route has several tokens on
+ * the origin chain. Intermediate hops go to the signer and have to be
+ * delivered, by self-relaying or a relayer, before the amount received is sent
+ * on. Each hop is validated before it is sent and the transfer stops at the
+ * first invalid or undelivered hop, returning the hops sent so far.
+ * In dry-run mode nothing is sent: every hop is quoted with the expected
+ * amounts and returned with its unsigned transactions, and only the first hop
+ * is validated since the funds of later hops arrive in transit.
+ */
+export async function assetTransfer({
+  warpCoreConfig,
+  chains,
+  amounts,
   recipient,
   multiProvider,
+  registry,
+  selfRelay = false,
+  routers = {},
+  dryRun = false,
+  hopTimeoutSeconds = DEFAULT_HOP_TIMEOUT_SECONDS,
 }: {
   warpCoreConfig: WarpCoreConfig;
   chains: ChainName[];
-  amount: string;
+  // Amount of each hop in base units of its origin token, as returned by
+  // getHopAmounts. Only the first one is sent as is, later hops send what
+  // arrived and are compared with their expected amount.
+  amounts: string[];
   recipient?: string;
   multiProvider: MultiProvider;
-}): Promise<[ContractReceipt, DispatchedMessage][]> {
-  const results: [ContractReceipt, DispatchedMessage][] = [];
-  for (let i = 0; i < chains.length; i++) {
+  registry: BaseRegistry;
+  selfRelay?: boolean;
+  routers?: Record<ChainName, Address>;
+  dryRun?: boolean;
+  hopTimeoutSeconds?: number;
+}): Promise<[HopTransfer[], TransferFailure?]> {
+  const multiProtocolProvider =
+    MultiProtocolProvider.fromMultiProvider(multiProvider);
+  const warpCore = WarpCore.FromConfig(multiProtocolProvider, warpCoreConfig);
+  const results: HopTransfer[] = [];
+  let amount = amounts[0];
+
+  for (let i = 0; i < chains.length - 1; i++) {
     const origin = chains[i];
     const destination = chains[i + 1];
+    const isLastHop = i === chains.length - 2;
 
-    if (destination) {
-      const deliveryResult = await timeout(
-        executeDelivery({
+    const token = getHopToken(warpCore, origin, destination, routers[origin]);
+    const destinationToken = token.getConnectionForChain(destination)!.token;
+    // Intermediate hops go to the signer, which sends the next hop
+    const hopRecipient = isLastHop
+      ? recipient
+      : await multiProvider.getSignerAddress(destination);
+    const balanceBefore =
+      dryRun || isLastHop
+        ? undefined
+        : await destinationToken.getBalance(
+            multiProtocolProvider,
+            hopRecipient!
+          );
+
+    const delivery = await executeDelivery({
+      origin,
+      destination,
+      warpCore,
+      token,
+      amount,
+      recipient: hopRecipient,
+      multiProvider,
+      validate: !dryRun || i === 0,
+      dryRun,
+    });
+    if (delivery[1]) return [results, delivery[1]];
+    const hop = delivery[0];
+    results.push(hop.transfer);
+
+    if (dryRun) {
+      // Estimate only, sent hops forward what actually arrived
+      amount = amounts[i + 1];
+      continue;
+    }
+
+    // Gas the signer paid on the destination to self-relay, which comes out
+    // of the balance measured when the token is the native one
+    let relayFee = ethers.BigNumber.from(0);
+    if (hop.dispatchTx && hop.message && selfRelay) {
+      const core = await getCore(origin, destination, registry, multiProvider);
+      const processTx = await selfRelayMessage({
+        core,
+        dispatchTx: hop.dispatchTx,
+        message: hop.message,
+      });
+      hop.transfer.processTransactionHash = processTx?.transactionHash;
+      hop.transfer.status = "delivered";
+      if (
+        processTx &&
+        (destinationToken.isNative() ||
+          destinationToken.standard === TokenStandard.EvmHypNative)
+      ) {
+        relayFee = processTx.gasUsed.mul(processTx.effectiveGasPrice);
+      }
+    } else if (!isLastHop) {
+      const status = await waitForMessageDelivery({
+        origin,
+        destination,
+        messageId: hop.transfer.messageId!,
+        registry,
+        multiProvider,
+        dispatchBlock: hop.dispatchTx?.blockNumber,
+        timeoutSeconds: hopTimeoutSeconds,
+      });
+      hop.transfer.processTransactionHash = status.processTxHash;
+      hop.transfer.status = status.status;
+    }
+
+    if (isLastHop) break;
+    if (hop.transfer.status !== "delivered") {
+      return [
+        results,
+        {
+          error: "HOP_NOT_DELIVERED",
+          message: `Transfer from ${origin} to ${destination} was not delivered within ${hopTimeoutSeconds}s, the next hops were not sent`,
           origin,
           destination,
-          warpCoreConfig,
-          amount,
-          recipient,
-          multiProvider,
-        }),
-        120_000,
-        "Timed out waiting for messages to be delivered"
-      );
+          details: { messageId: hop.transfer.messageId! },
+        },
+      ];
+    }
 
-      if (deliveryResult) {
-        const [dispatchTx, message] = deliveryResult;
-        results.push([dispatchTx, message]);
-      } else {
-        break;
-      }
+    // Other transfers to or from the signer on the chain in the meantime are
+    // counted as well
+    const balanceAfter = await destinationToken.getBalance(
+      multiProtocolProvider,
+      hopRecipient!
+    );
+    const received = ethers.BigNumber.from(
+      (balanceAfter.amount - balanceBefore!.amount).toString()
+    ).add(relayFee);
+    hop.transfer.receivedAmount = received.toString();
+    hop.transfer.expectedReceivedAmount = amounts[i + 1];
+    if (received.lte(0)) {
+      return [
+        results,
+        {
+          error: "HOP_AMOUNT_NOT_RECEIVED",
+          message: `Transfer from ${origin} to ${destination} was delivered, but the balance of ${hopRecipient} on ${destination} did not increase, the next hops were not sent`,
+          origin,
+          destination,
+          details: {
+            messageId: hop.transfer.messageId!,
+            receivedAmount: received.toString(),
+            expectedReceivedAmount: amounts[i + 1],
+          },
+        },
+      ];
+    }
+    if (received.lt(amounts[i + 1])) {
+      hop.transfer.warning = `Received ${received} on ${destination}, less than the expected ${
+        amounts[i + 1]
+      }, the next hop sends what was received`;
+      logger.info(hop.transfer.warning);
     }
+    amount = received.toString();
   }
-  return results;
+  return [results];
+}
+
+function getHopToken(
+  warpCore: WarpCore,
+  origin: ChainName,
+  destination: ChainName,
+  router?: Address
+): Token {
+  const tokensForRoute = warpCore
+    .getTokensForRoute(origin, destination)
+    .filter((t) => !router || eqAddress(t.addressOrDenom, router));
+  if (tokensForRoute.length === 0) {
+    // console.error(`No Warp Routes found from ${origin} to ${destination}`);
+    throw new Error("Error finding warp route");
+  } else if (tokensForRoute.length > 1) {
+    throw new Error(
+      `Multiple tokens found for route from ${origin} to ${destination}: ${tokensForRoute
+        .map((t) => t.addressOrDenom)
+        .join(", ")}`
+    );
+  }
+  return tokensForRoute[0];
 }
 
 async function executeDelivery({
   origin,
   destination,
-  warpCoreConfig,
+  warpCore,
+  token,
   amount,
   recipient,
   multiProvider,
+  validate,
+  dryRun,
 }: {
   origin: ChainName;
   destination: ChainName;
-  warpCoreConfig: WarpCoreConfig;
+  warpCore: WarpCore;
+  token: Token;
   amount: string;
   recipient?: string;
   multiProvider: MultiProvider;
-}): Promise<[ContractReceipt, DispatchedMessage]> {
+  validate: boolean;
+  dryRun: boolean;
+}): Promise<[Delivery, undefined] | [undefined, TransferFailure]> {
   const signer = multiProvider.getSigner(origin);
   const recipientSigner = multiProvider.getSigner(destination);
 
@@ -83,36 +499,29 @@ async function executeDelivery({
   const provider = multiProvider.getProvider(origin);
   const connectedSigner = signer.connect(provider);
 
-  const warpCore = WarpCore.FromConfig(
-    MultiProtocolProvider.fromMultiProvider(multiProvider),
-    warpCoreConfig
-  );
-
-  let token: Token;
-  const tokensForRoute = warpCore.getTokensForRoute(origin, destination);
-  if (tokensForRoute.length === 0) {
-    // console.error(`No Warp Routes found from ${origin} to ${destination}`);
-    throw new Error("Error finding warp route");
-  } else if (tokensForRoute.length === 1) {
-    token = tokensForRoute[0];
-  } else {
-    // console.info(`Please select a token from the Warp config`);
-    // const routerAddress = await runTokenSelectionStep(tokensForRoute);
-    // token = warpCore.findToken(origin, routerAddress)!;
-    throw new Error("Multiple tokens found for route");
-  }
-
-  const errors = await warpCore.validateTransfer({
-    originTokenAmount: token.amount(amount),
-    destination,
-    recipient,
-    sender: signerAddress,
-  });
-  if (errors) {
-    console.error("Error validating transfer: ", JSON.stringify(errors));
+  if (validate) {
+    const errors = await warpCore.validateTransfer({
+      originTokenAmount: token.amount(amount),
+      destination,
+      recipient,
+      sender: signerAddress,
+    });
+    if (errors) {
+      return [
+        undefined,
+        {
+          error: getTransferErrorCode(errors),
+          message: `Transfer from ${origin} to ${destination} is invalid: ${Object.values(
+            errors
+          ).join(", ")}`,
+          origin,
+          destination,
+          details: errors,
+        },
+      ];
+    }
   }
 
-  // TODO: override hook address for self-relay
   const transferTxs = await warpCore.getTransferRemoteTxs({
     originTokenAmount: new TokenAmount(amount, token),
     destination,
@@ -120,12 +529,51 @@ async function executeDelivery({
     recipient,
   });
 
+  if (dryRun) {
+    const { interchainQuote, localQuote } =
+      await warpCore.estimateTransferRemoteFees({
+        originToken: token,
+        destination,
+        sender: signerAddress,
+      });
+    return [
+      {
+        transfer: {
+          origin,
+          destination,
+          status: "quoted",
+          amount,
+          steps: transferTxs
+            .filter((tx) => tx.type === ProviderType.EthersV5)
+            .map((tx) => {
+              const { to, data, value } = (tx as EthersV5Transaction)
+                .transaction;
+              return {
+                category: tx.category,
+                transaction: { to, data, value: value?.toString() },
+              };
+            }),
+          fees: {
+            interchain: toQuotedFee(interchainQuote),
+            local: toQuotedFee(localQuote),
+          },
+        },
+      },
+      undefined,
+    ];
+  }
+
+  const steps: TransferStep[] = [];
   const txReceipts: ContractReceipt[] = [];
   for (const tx of transferTxs) {
     if (tx.type === ProviderType.EthersV5) {
       const txResponse = await connectedSigner.sendTransaction(tx.transaction);
       const txReceipt = await multiProvider.handleTx(origin, txResponse);
       txReceipts.push(txReceipt);
+      steps.push({
+        category: tx.category,
+        transactionHash: txReceipt.transactionHash,
+      });
     }
   }
   const dispatchTx = txReceipts[txReceipts.length - 1];
@@ -133,7 +581,19 @@ async function executeDelivery({
   const message: DispatchedMessage =
     HyperlaneCore.getDispatchedMessages(dispatchTx)[messageIndex];
 
-  const parsed = parseWarpRouteMessage(message.parsed.body);
-
-  return [dispatchTx, message];
+  return [
+    {
+      transfer: {
+        origin,
+        destination,
+        status: "dispatched",
+        amount,
+        steps,
+        messageId: message.id,
+      },
+      dispatchTx,
+      message,
+    },
+    undefined,
+  ];
 }
@@ -0,0 +1,248 @@
+import Docker, { MountSettings } from 'dockerode';
+import path from 'path';
+import logger from './logger.js';
+import { createDirectory } from './utils.js';
+
+const docker = new Docker();
+
+export type CheckpointSyncerConfig =
+  | { type: 'localStorage' }
+  | {
+      type: 's3';
+      bucket: string;
+      region: string;
+      folder?: string;
+      // S3-compatible endpoint to use instead of AWS, e.g. a local MinIO
+      endpoint?: string;
+    }
+  | {
+      type: 'gcs';
+      bucket: string;
+      folder?: string;
+      // Host path of a service account key file, read from
+      // GOOGLE_APPLICATION_CREDENTIALS when not given
+      serviceAccountKeyPath?: string;
+    };
+
+export interface CheckpointSyncerContainerOptions {
+  cmd: string[];
+  env: string[];
+  mounts: MountSettings[];
+}
+
+const GCS_SERVICE_ACCOUNT_KEY_MOUNT = '/gcs-service-account-key.json';
+
+const LOCAL_S3_IMAGE = 'minio/minio:latest';
+const LOCAL_S3_CLIENT_IMAGE = 'minio/mc:latest';
+const LOCAL_S3_PORT = 9000;
+const LOCAL_S3_CONTAINER_NAME = 'hyperlane-mcp-local-s3';
+
+// Credentials are only ever read from the server's environment and passed to
+// containers via Env, so they don't show up in tool calls or container commands
+function getS3Credentials(): [string, string] {
+  const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY } = process.env;
+  if (!AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY) {
+    throw new Error(
+      'AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY must be set to use an S3 checkpoint syncer'
+    );
+  }
+  return [AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY];
+}
+
+/**
+ * Env variables pointing the agent's AWS client at an S3-compatible endpoint.
+ * Relayers reading checkpoints from such an endpoint need them too.
+ */
+export function getS3EndpointEnv(endpoint?: string): string[] {
+  return endpoint
+    ? [`AWS_ENDPOINT_URL=${endpoint}`, `AWS_ENDPOINT_URL_S3=${endpoint}`]
+    : [];
+}
+
+/**
+ * Storage location a validator with the given syncer announces, in the
+ * format relayers parse
+ */
+export function getCheckpointStorageLocation(
+  config: CheckpointSyncerConfig,
+  localPath: string
+): string {
+  switch (config.type) {
+    case 'localStorage':
+      return `file://${localPath}`;
+    case 's3':
+      return `s3://${config.bucket}/${config.region}${
+        config.folder ? `/${config.folder}` : ''
+      }`;
+    case 'gcs':
+      return `gs://${config.bucket}${config.folder ? `/${config.folder}` : ''}`;
+  }
+}
+
+/**
+ * Validator command line options, env and mounts of a checkpoint syncer. Local
+ * checkpoints are written to `localPath` in the container, which the host
+ * signatures directory is mounted at.
+ */
+export function getCheckpointSyncerContainerOptions({
+  config,
+  localPath,
+  signaturesDir,
+}: {
+  config: CheckpointSyncerConfig;
+  localPath: string;
+  signaturesDir: string;
+}): CheckpointSyncerContainerOptions {
+  switch (config.type) {
+    case 'localStorage':
+      return {
+        cmd: [
+          '--checkpointSyncer.type',
+          'localStorage',
+          '--checkpointSyncer.path',
+          localPath,
+        ],
+        env: [],
+        mounts: [{ Source: signaturesDir, Target: localPath, Type: 'bind' }],
+      };
+    case 's3': {
+      const [accessKeyId, secretAccessKey] = getS3Credentials();
+      return {
+        cmd: [
+          '--checkpointSyncer.type',
+          's3',
+          '--checkpointSyncer.bucket',
+          config.bucket,
+          '--checkpointSyncer.region',
+          config.region,
+          ...(config.folder
+            ? ['--checkpointSyncer.folder', config.folder]
+            : []),
+        ],
+        env: [
+          `AWS_ACCESS_KEY_ID=${accessKeyId}`,
+          `AWS_SECRET_ACCESS_KEY=${secretAccessKey}`,
+          ...getS3EndpointEnv(config.endpoint),
+        ],
+        mounts: [],
+      };
+    }
+    case 'gcs': {
+      const keyPath =
+        config.serviceAccountKeyPath ??
+        process.env.GOOGLE_APPLICATION_CREDENTIALS;
+      return {
+        cmd: [
+          '--checkpointSyncer.type',
+          'gcs',
+          '--checkpointSyncer.bucket',
+          config.bucket,
+          ...(config.folder
+            ? ['--checkpointSyncer.folder', config.folder]
+            : []),
+        ],
+        // Without a key the validator can't write to the bucket, but the key
+        // file itself stays on the host and is only mounted read-only
+        env: keyPath
+          ? [
+              `HYP_CHECKPOINTSYNCER_SERVICEACCOUNTKEY=${GCS_SERVICE_ACCOUNT_KEY_MOUNT}`,
+            ]
+          : [],
+        mounts: keyPath
+          ? [
+              {
+                Source: path.resolve(keyPath),
+                Target: GCS_SERVICE_ACCOUNT_KEY_MOUNT,
+                Type: 'bind',
+                ReadOnly: true,
+              },
+            ]
+          : [],
+      };
+    }
+  }
+}
+
+async function pullImage(image: string): Promise<void> {
+  logger.info(`Pulling ${image}...`);
+  await new Promise<void>((resolve, reject) => {
+    docker.pull(
+      image,
+      (err: Error | null, stream: NodeJS.ReadableStream | undefined) => {
+        if (err || !stream) {
+          reject(err ?? new Error('Stream is undefined'));
+          return;
+        }
+        docker.modem.followProgress(stream, (err: Error | null) =>
+          err ? reject(err) : resolve()
+        );
+      }
+    );
+  });
+}
+
+/**
+ * Starts a MinIO container as a local S3-compatible stand-in for testing S3
+ * checkpoint syncers, with the AWS credentials of the server's environment as
+ * root credentials. The bucket is created and made publicly readable, like
+ * validator buckets relayers read without credentials. Returns the endpoint.
+ */
+export async function startLocalS3(bucket: string): Promise<string> {
+  const [accessKey, secretKey] = getS3Credentials();
+  const endpoint = `http://localhost:${LOCAL_S3_PORT}`;
+  const dataDir = path.resolve(
+    process.env.CACHE_DIR || process.env.HOME!,
+    '.hyperlane-mcp/local-s3'
+  );
+  createDirectory(dataDir);
+
+  const [existing] = await docker.listContainers({
+    all: true,
+    filters: { name: [LOCAL_S3_CONTAINER_NAME] },
+  });
+  if (existing?.State === 'running') {
+    logger.info(`Local S3 already running at ${endpoint}`);
+  } else if (existing) {
+    await docker.getContainer(existing.Id).start();
+  } else {
+    await pullImage(LOCAL_S3_IMAGE);
+    const container = await docker.createContainer({
+      name: LOCAL_S3_CONTAINER_NAME,
+      Image: LOCAL_S3_IMAGE,
+      Env: [`MINIO_ROOT_USER=${accessKey}`, `MINIO_ROOT_PASSWORD=${secretKey}`],
+      Cmd: ['server', '/data', '--address', `:${LOCAL_S3_PORT}`],
+      HostConfig: {
+        NetworkMode: 'host',
+        Mounts: [{ Source: dataDir, Target: '/data', Type: 'bind' }],
+      },
+    });
+    await container.start();
+    logger.info(`Local S3 started at ${endpoint}`);
+  }
+
+  // Retries until MinIO accepts connections, then creates the bucket
+  await pullImage(LOCAL_S3_CLIENT_IMAGE);
+  const client = await docker.createContainer({
+    Image: LOCAL_S3_CLIENT_IMAGE,
+    Env: [
+      `MC_HOST_local=http://${encodeURIComponent(
+        accessKey
+      )}:${encodeURIComponent(secretKey)}@localhost:${LOCAL_S3_PORT}`,
+    ],
+    Entrypoint: ['sh', '-c'],
+    Cmd: [
+      `for i in $(seq 30); do mc ready local && break; sleep 1; done; mc mb --ignore-existing local/${bucket} && mc anonymous set download local/${bucket}`,
+    ],
+    HostConfig: { NetworkMode: 'host' },
+  });
+  await client.start();
+  const { StatusCode } = await client.wait();
+  await client.remove();
+  if (StatusCode !== 0) {
+    throw new Error(
+      `Creating bucket ${bucket} on the local S3 failed with exit code ${StatusCode}`
+    );
+  }
+
+  return endpoint;
+}
@@ -1,13 +1,30 @@
 import {
+  AggregationHookConfigSchema,
+  AggregationIsmConfigSchema,
   ChainMetadata,
-  MultisigIsmConfig,
-  IsmConfig,
-  MultisigIsmConfigSchema,
+  DomainRoutingHookConfigSchema,
   HookConfig,
   HookType,
+  IgpSchema,
+  IsmConfig,
+  IsmType,
+  MultisigIsmConfig,
+  MultisigIsmConfigSchema,
+  PausableHookSchema,
+  ProtocolFeeSchema,
+  RoutingIsmConfigSchema,
+  TrustedRelayerIsmConfigSchema,
 } from "@hyperlane-xyz/sdk";
+import { z } from "zod";
+import { DEFAULT_IGP_OVERHEAD } from "./consts.js";
 import { callWithConfigCreationLogs } from "./utils.js";
-import { ChainTokenConfig } from "./types.js";
+import {
+  ChainTokenConfig,
+  HookOptions,
+  IsmOptions,
+  ModuleHookOptions,
+  ModuleIsmOptions,
+} from "./types.js";
 import { privateKeyToSigner } from "./utils.js";
 
 export async function addNativeTokenConfig(
@@ -24,24 +41,203 @@ export async function addNativeTokenConfig(
   };
 }
 
-export async function createMultisignConfig(
-  ismType: MultisigIsmConfig["type"]
+function parseConfig<T extends IsmConfig | HookConfig>(
+  schema: z.ZodType<T, any, any>,
+  config: unknown
+): T {
+  const result = schema.safeParse(config);
+  if (!result.success) {
+    throw new Error(
+      `Invalid config ${JSON.stringify(config)}: ${result.error.message}`
+    );
+  }
+  return result.data;
+}
+
+function getDeployerAddress(): string {
+  return privateKeyToSigner(process.env.PRIVATE_KEY || "").address;
+}
 
+export async function createMultisignConfig(
+  ismType: MultisigIsmConfig["type"],
+  validators: string[] = [getDeployerAddress()],
+  threshold = 1
 ): Promise<IsmConfig> {
-  const signer = privateKeyToSigner(process.env.PRIVATE_KEY || "");
-  const validators: string[] = [signer.address];
-  const threshold = 1;
+  if (validators.length === 0) {
+    throw new Error(`At least one validator is required for ${ismType}`);
+  }
+  if (
+    new Set(validators.map((v) => v.toLowerCase())).size !== validators.length
+  ) {
+    throw new Error(`Duplicate validators in ${ismType}: ${validators}`);
+  }
+  if (threshold > validators.length) {
+    throw new Error(
+      `Threshold ${threshold} exceeds the number of validators (${validators.length}) for ${ismType}`
+    );
+  }
 
-  const result = MultisigIsmConfigSchema.safeParse({
+  return parseConfig(MultisigIsmConfigSchema, {
     type: ismType,
     validators,
     threshold,
   });
+}
 
-  if (!result.success) {
-    return createMultisignConfig(ismType);
+/**
+ * Builds the IsmConfig for the given ISM options. Validators and relayers
+ * default to the deployer's own address.
+ */
+export async function createIsmConfig(
+  options: IsmOptions | ModuleIsmOptions,
+  owner: string
+): Promise<IsmConfig> {
+  switch (options.type) {
+    case "merkleRootMultisig":
+      return createMultisignConfig(
+        IsmType.MERKLE_ROOT_MULTISIG,
+        options.validators,
+        options.threshold
+      );
+    case "messageIdMultisig":
+      return createMultisignConfig(
+        IsmType.MESSAGE_ID_MULTISIG,
+        options.validators,
+        options.threshold
+      );
+    case "trustedRelayer":
+      return parseConfig(TrustedRelayerIsmConfigSchema, {
+        type: IsmType.TRUSTED_RELAYER,
+        relayer: options.relayer ?? getDeployerAddress(),
+      });
+    case "testIsm":
+      return { type: IsmType.TEST_ISM };
+    case "aggregation": {
+      if (!("modules" in options) || !options.modules?.length) {
+        throw new Error("Aggregation ISM requires at least one module");
+      }
+      const modules = await Promise.all(
+        options.modules.map((module) => createIsmConfig(module, owner))
+      );
+      return parseConfig(AggregationIsmConfigSchema, {
+        type: IsmType.AGGREGATION,
+        modules,
+        threshold: options.threshold ?? modules.length,
+      });
+    }
+    case "routing": {
+      if (
+        !("domains" in options) ||
+        !options.domains ||
+        Object.keys(options.domains).length === 0
+      ) {
+        throw new Error("Routing ISM requires at least one origin domain");
+      }
+      const domains = await Promise.all(
+        Object.entries(options.domains).map(
+          async ([chain, module]) =>
+            [chain, await createIsmConfig(module, owner)] as const
+        )
+      );
+      return parseConfig(RoutingIsmConfigSchema, {
+        type: IsmType.ROUTING,
+        owner,
+        domains: Object.fromEntries(domains),
+      });
+    }
+  }
+}
+
+/**
+ * Builds the HookConfig for the given hook options. Owners, beneficiaries and
+ * oracle keys default to the deployer's own address.
+ */
+export async function createHookConfig(
+  options: HookOptions | ModuleHookOptions,
+  owner: string
+): Promise<HookConfig> {
+  const hookOwner = options.owner ?? owner;
+
+  switch (options.type) {
+    case "merkleTree":
+      return createMerkleTreeConfig();
+    case "interchainGasPaymaster": {
+      const oracleConfig = options.oracleConfig ?? {};
+      return parseConfig(IgpSchema, {
+        type: HookType.INTERCHAIN_GAS_PAYMASTER,
+        owner: hookOwner,
+        beneficiary: options.beneficiary ?? hookOwner,
+        oracleKey: options.oracleKey ?? hookOwner,
+        overhead:
+          options.overhead ??
+          Object.fromEntries(
+            Object.keys(oracleConfig).map((chain) => [
+              chain,
+              DEFAULT_IGP_OVERHEAD,
+            ])
+          ),
+        oracleConfig,
+      });
+    }
+    case "protocolFee": {
+      if (!options.protocolFee) {
+        throw new Error("protocolFee is required for a protocol fee hook");
+      }
+      const maxProtocolFee = options.maxProtocolFee ?? options.protocolFee;
+      if (BigInt(options.protocolFee) > BigInt(maxProtocolFee)) {
+        throw new Error(
+          `Protocol fee ${options.protocolFee} exceeds the max protocol fee ${maxProtocolFee}`
+        );
+      }
+      return parseConfig(ProtocolFeeSchema, {
+        type: HookType.PROTOCOL_FEE,
+        owner: hookOwner,
+        beneficiary: options.beneficiary ?? hookOwner,
+        protocolFee: options.protocolFee,
+        maxProtocolFee,
+      });
+    }
+    case "pausable":
+      return parseConfig(PausableHookSchema, {
+        type: HookType.PAUSABLE,
+        owner: hookOwner,
+        paused: options.paused ?? false,
+      });
+    case "aggregation": {
+      if (!("hooks" in options) || !options.hooks?.length) {
+        throw new Error("Aggregation hook requires at least one hook");
+      }
+      const hooks = await Promise.all(
+        options.hooks.map((hook) => createHookConfig(hook, owner))
+      );
+      return parseConfig(AggregationHookConfigSchema, {
+        type: HookType.AGGREGATION,
+        hooks,
+      });
+    }
+    case "routing": {
+      if (
+        !("domains" in options) ||
+        !options.domains ||
+        Object.keys(options.domains).length === 0
+      ) {
+        throw new Error(
+          "Routing hook requires at least one destination domain"
+        );
+      }
+      const domains = await Promise.all(
+        Object.entries(options.domains).map(
+          async ([chain, hook]) =>
+            [chain, await createHookConfig(hook, owner)] as const
+        )
+      );
+      return parseConfig(DomainRoutingHookConfigSchema, {
+        type: HookType.ROUTING,
+        owner: hookOwner,
+        domains: Object.fromEntries(domains),
+      });
+    }
   }
-  return result.data;
 }
 
 export const createMerkleTreeConfig = callWithConfigCreationLogs(
@@ -1,3 +1,44 @@
 export const MINIMUM_TEST_SEND_GAS = (3e5).toString();
 export const EXPLORER_URL = "https://explorer.hyperlane.xyz";
 export const MINIMUM_CORE_DEPLOY_GAS = (1e8).toString();
+export const DEFAULT_DESTINATION_GAS_LIMIT = 50_000;
+// Destination gas overhead used for IGP remotes without an explicit overhead
+export const DEFAULT_IGP_OVERHEAD = 75_000;
+// Approximate gas used by each step of a core deployment, used to plan
+// deployments before any transaction is sent
+export const CORE_DEPLOY_GAS_ESTIMATES = {
+  ismFactory: 1_500_000,
+  domainRoutingIsmFactory: 2_500_000,
+  proxyAdmin: 500_000,
+  mailbox: 3_200_000,
+  proxy: 700_000,
+  interchainAccountRouter: 4_500_000,
+  interchainAccountIsm: 1_000_000,
+  validatorAnnounce: 1_000_000,
+  testRecipient: 600_000,
+  staticIsm: 300_000,
+  routingIsm: 2_000_000,
+  routingIsmDomain: 100_000,
+  trustedRelayerIsm: 400_000,
+  testIsm: 300_000,
+  merkleTreeHook: 1_200_000,
+  storageGasOracle: 800_000,
+  interchainGasPaymaster: 2_500_000,
+  igpRemoteConfig: 100_000,
+  protocolFee: 1_000_000,
+  pausableHook: 600_000,
+  staticHook: 300_000,
+  domainRoutingHook: 1_500_000,
+  domainRoutingHookDomain: 50_000,
+  other: 2_000_000,
+};
+// IGP token exchange rates are scaled by 1e10, so this prices remote gas 1:1
+export const DEFAULT_TOKEN_EXCHANGE_RATE = "10000000000";
+// Destination gas of a transfer to a warp router of the given token type, as
+// set by the SDK token deployer
+export const WARP_ROUTE_GAS_OVERHEAD: Record<string, number> = {
+  synthetic: 64_000,
+  fastSynthetic: 64_000,
+  native: 44_000,
+};
+export const DEFAULT_WARP_ROUTE_GAS_OVERHEAD = 68_000;
@@ -0,0 +1,69 @@
+import { ChainName } from '@hyperlane-xyz/sdk';
+import fs from 'fs';
+import path from 'path';
+import { readYamlOrJson, writeYamlOrJson } from './configOpts.js';
+import { ChainConfig, HookOptions, IsmOptions } from './types.js';
+
+export type CoreDeployStatus = 'in-progress' | 'failed' | 'completed';
+
+export interface CoreDeployState {
+  chainName: ChainName;
+  status: CoreDeployStatus;
+  config: ChainConfig;
+  ism?: IsmOptions;
+  defaultHook?: HookOptions;
+  requiredHook?: HookOptions;
+  // Contracts deployed so far, keyed by contract name. Core contracts, ISM
+  // factories and hooks share one deployer cache; the interchain accounts
+  // router has its own proxy admin and is tracked separately
+  contracts: {
+    core: Record<string, string>;
+    interchainAccounts: Record<string, string>;
+  };
+  // Serialized core addresses, set once the deployment completed
+  addresses?: Record<string, string>;
+  error?: string;
+  updatedAt: string;
+}
+
+export function getCoreDeployStatePath(chainName: ChainName): string {
+  return path.join(
+    process.env.CACHE_DIR || process.env.HOME!,
+    '.hyperlane-mcp',
+    'chains',
+    `${chainName}-core-deploy-state.json`
+  );
+}
+
+export function loadCoreDeployState(
+  chainName: ChainName
+): CoreDeployState | null {
+  const filePath = getCoreDeployStatePath(chainName);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return readYamlOrJson<CoreDeployState>(filePath, 'json');
+}
+
+export function saveCoreDeployState(state: CoreDeployState): void {
+  state.updatedAt = new Date().toISOString();
+  writeYamlOrJson(getCoreDeployStatePath(state.chainName), state, 'json');
+}
+
+/**
+ * Wraps one of the state's contract records so that every address a deployer
+ * caches into it is written to disk straight away.
+ */
+export function persistOnWrite(
+  state: CoreDeployState,
+  contracts: Record<string, string>
+): Record<string, string> {
+  return new Proxy(contracts, {
+    set(target, contractName, address) {
+      target[contractName as string] = address;
+      saveCoreDeployState(state);
+      return true;
+    },
+  });
+}
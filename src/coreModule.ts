@@ -0,0 +1,232 @@
+import { Mailbox__factory } from '@hyperlane-xyz/core';
+import { BaseRegistry } from '@hyperlane-xyz/registry';
+import {
+  AnnotatedEV5Transaction,
+  ChainName,
+  CoreConfig,
+  CoreConfigSchema,
+  DeployedCoreAddresses,
+  DeployedCoreAddressesSchema,
+  DerivedCoreConfig,
+  EvmCoreModule,
+  EvmCoreReader,
+  EvmHookModule,
+  HookConfig,
+  MultiProvider,
+} from '@hyperlane-xyz/sdk';
+import { eqAddress } from '@hyperlane-xyz/utils';
+import logger from './logger.js';
+import {
+  ConfigDifference,
+  ConfigTransaction,
+  diffConfig,
+  sendTransactions,
+} from './utils.js';
+
+const MAILBOX_HOOKS = ['defaultHook', 'requiredHook'] as const;
+
+async function getCoreAddresses(
+  chain: ChainName,
+  registry: BaseRegistry
+): Promise<DeployedCoreAddresses> {
+  const addresses = await registry.getChainAddresses(chain);
+  if (!addresses?.mailbox) {
+    throw new Error(`No core deployment found for ${chain}`);
+  }
+
+  const result = DeployedCoreAddressesSchema.safeParse(addresses);
+  if (!result.success) {
+    throw new Error(
+      `Incomplete core deployment for ${chain}: ${result.error.message}`
+    );
+  }
+  return result.data;
+}
+
+function parseCoreConfig(config: unknown): CoreConfig {
+  const result = CoreConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new Error(`Invalid core config: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export async function readCoreConfig({
+  chain,
+  registry,
+  multiProvider,
+}: {
+  chain: ChainName;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+}): Promise<DerivedCoreConfig> {
+  const { mailbox, interchainAccountRouter } = await getCoreAddresses(
+    chain,
+    registry
+  );
+  const reader = new EvmCoreReader(multiProvider, chain);
+  return reader.deriveCoreConfig({ mailbox, interchainAccountRouter });
+}
+
+export async function checkCoreConfig({
+  chain,
+  registry,
+  multiProvider,
+  expectedConfig,
+}: {
+  chain: ChainName;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+  expectedConfig: unknown;
+}): Promise<[boolean, ConfigDifference[], DerivedCoreConfig]> {
+  const expected = parseCoreConfig(expectedConfig);
+  const actual = await readCoreConfig({ chain, registry, multiProvider });
+  const differences = diffConfig(actual, expected, '');
+
+  logger.info(
+    `Core config of ${chain} differences: ${JSON.stringify(
+      differences,
+      null,
+      2
+    )}`
+  );
+
+  return [differences.length === 0, differences, actual];
+}
+
+/**
+ * Brings the mailbox of a deployed chain to the expected config. Changed hooks
+ * are updated in place when possible or redeployed and set on the mailbox;
+ * the default ISM, mailbox owner and proxy admin owner are updated by
+ * EvmCoreModule. In dry-run mode nothing is deployed or sent and ISMs or hooks
+ * that would be deployed are reported without calldata.
+ */
+export async function applyCoreConfig({
+  chain,
+  registry,
+  multiProvider,
+  expectedConfig,
+  dryRun = false,
+}: {
+  chain: ChainName;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+  expectedConfig: unknown;
+  dryRun?: boolean;
+}): Promise<[ConfigTransaction[], ConfigDifference[]]> {
+  const expected = parseCoreConfig(expectedConfig);
+  const addresses = await getCoreAddresses(chain, registry);
+  const reader = new EvmCoreReader(multiProvider, chain);
+  const actual = await reader.deriveCoreConfig({
+    mailbox: addresses.mailbox,
+    interchainAccountRouter: addresses.interchainAccountRouter,
+  });
+
+  const differences = diffConfig(actual, expected, '');
+  if (differences.length === 0) {
+    logger.info(`Core config of ${chain} is up to date`);
+    return [[], differences];
+  }
+
+  const changed = (key: string) =>
+    differences.some(({ path }) => path === key || path.startsWith(`${key}.`));
+
+  const mailbox = Mailbox__factory.connect(
+    addresses.mailbox,
+    multiProvider.getProvider(chain)
+  );
+  const coreModule = new EvmCoreModule(multiProvider, {
+    chain,
+    config: expected,
+    addresses,
+  });
+
+  const transactions: AnnotatedEV5Transaction[] = [];
+
+  if (dryRun) {
+    if (changed('defaultIsm')) {
+      transactions.push(
+        typeof expected.defaultIsm === 'string'
+          ? {
+              annotation: `Setting default ISM to ${expected.defaultIsm}`,
+              ...(await mailbox.populateTransaction.setDefaultIsm(
+                expected.defaultIsm
+              )),
+            }
+          : {
+              annotation: `Deploying or updating the default ISM (${expected.defaultIsm.type})`,
+              to: addresses.mailbox,
+            }
+      );
+    }
+    for (const hook of MAILBOX_HOOKS) {
+      if (!changed(hook)) continue;
+      const expectedHook: HookConfig = expected[hook];
+      transactions.push(
+        typeof expectedHook === 'string'
+          ? {
+              annotation: `Setting ${hook} to ${expectedHook}`,
+              ...(await (hook === 'defaultHook'
+                ? mailbox.populateTransaction.setDefaultHook(expectedHook)
+                : mailbox.populateTransaction.setRequiredHook(expectedHook))),
+            }
+          : {
+              annotation: `Deploying or updating the ${hook} (${expectedHook.type})`,
+              to: addresses.mailbox,
+            }
+      );
+    }
+    transactions.push(
+      ...coreModule.createMailboxOwnerUpdateTxs(actual, expected)
+    );
+    if (changed('proxyAdmin')) {
+      transactions.push({
+        annotation: `Transferring ownership of ProxyAdmin to ${expected.proxyAdmin?.owner}`,
+        to: addresses.proxyAdmin,
+      });
+    }
+  } else {
+    // Hooks go first, the mailbox may not be owned by the signer anymore once
+    // the core module transferred its ownership
+    for (const hook of MAILBOX_HOOKS) {
+      if (!changed(hook)) continue;
+      const actualHook = actual[hook];
+      const actualHookAddress = await (hook === 'defaultHook'
+        ? mailbox.defaultHook()
+        : mailbox.requiredHook());
+      let expectedHookAddress: string;
+
+      if (typeof expected[hook] === 'string') {
+        expectedHookAddress = expected[hook];
+      } else {
+        const hookModule = new EvmHookModule(multiProvider, {
+          chain,
+          config: actualHook,
+          addresses: {
+            ...addresses,
+            deployedHook: actualHookAddress,
+          },
+        });
+        transactions.push(...(await hookModule.update(expected[hook])));
+        expectedHookAddress = hookModule.serialize().deployedHook;
+      }
+
+      if (!eqAddress(expectedHookAddress, actualHookAddress)) {
+        transactions.push({
+          annotation: `Setting ${hook} to ${expectedHookAddress}`,
+          ...(await (hook === 'defaultHook'
+            ? mailbox.populateTransaction.setDefaultHook(expectedHookAddress)
+            : mailbox.populateTransaction.setRequiredHook(
+                expectedHookAddress
+              ))),
+        });
+      }
+    }
+    transactions.push(...(await coreModule.update(expected)));
+  }
+
+  return [
+    await sendTransactions(multiProvider, chain, transactions, dryRun),
+    differences,
+  ];
+}
@@ -5,32 +5,57 @@ import {
   ChainMetadata,
   ChainMetadataSchema,
   ChainName,
+  CoreAddresses,
   CoreConfig,
   CoreConfigSchema,
-  EvmCoreModule,
+  HookConfig,
+  HookType,
   HyperlaneCore,
+  HyperlaneCoreDeployer,
   HyperlaneDeploymentArtifacts,
+  HyperlaneIsmFactory,
+  HyperlaneProxyFactoryDeployer,
+  InterchainAccountDeployer,
+  IsmConfig,
   IsmType,
   MultiProvider,
   OwnableConfig,
+  ProxyFactoryFactoriesAddresses,
+  ProxyFactoryFactoriesSchema,
+  serializeContracts,
+  serializeContractsMap,
 } from '@hyperlane-xyz/sdk';
 import { Address, ProtocolType } from '@hyperlane-xyz/utils';
 import { BigNumber, ethers } from 'ethers';
 import fs from 'fs';
 import path from 'path';
-import { parse as yamlParse, stringify as yamlStringify } from 'yaml';
+import { stringify as yamlStringify } from 'yaml';
 import { writeYamlOrJson } from './configOpts.js';
+import {
+  CORE_DEPLOY_GAS_ESTIMATES,
+  DEFAULT_TOKEN_EXCHANGE_RATE,
+} from './consts.js';
+import {
+  CoreDeployState,
+  loadCoreDeployState,
+  persistOnWrite,
+  saveCoreDeployState,
+} from './coreDeployState.js';
 
 import {
   addNativeTokenConfig,
-  createMerkleTreeConfig,
-  createMultisignConfig,
+  createHookConfig,
+  createIsmConfig,
 } from './config.js';
 import logger from './logger.js';
-import { ChainConfig } from './types.js';
+import {
+  ChainConfig,
+  HookOptions,
+  IsmOptions,
+  ModuleHookOptions,
+} from './types.js';
 import {
   assertSigner,
-  confirmExistingMailbox,
   filterAddresses,
   getStartBlocks,
   handleMissingInterchainGasPaymaster,
@@ -53,6 +78,30 @@ export interface ChainConfigOptions {
 export interface CoreDeployConfig {
   config: ChainConfig;
   registry: BaseRegistry;
+  ism?: IsmOptions;
+  defaultHook?: HookOptions;
+  requiredHook?: HookOptions;
+}
+
+export interface PlannedContract {
+  contract: string;
+  estimatedGas: number;
+}
+
+export interface CoreDeployPlan {
+  chain: ChainName;
+  signer: Address;
+  coreConfig: CoreConfig;
+  contracts: PlannedContract[];
+  existingMailbox?: Address;
+  gasPrice: string;
+  estimatedGas: string;
+  estimatedCost: string;
+  balance: string;
+  nativeTokenSymbol: string;
+  sufficientBalance: boolean;
+  go: boolean;
+  issues: string[];
 }
 
 export async function prepareDeploy(
@@ -72,19 +121,272 @@ export async function prepareDeploy(
   return initialBalances;
 }
 
+function planIsmContracts(ism: IsmConfig, label: string): PlannedContract[] {
+  // Existing ISMs referenced by address are not deployed
+  if (typeof ism === 'string') return [];
+
+  switch (ism.type) {
+    case IsmType.MERKLE_ROOT_MULTISIG:
+    case IsmType.MESSAGE_ID_MULTISIG:
+    case IsmType.WEIGHTED_MERKLE_ROOT_MULTISIG:
+    case IsmType.WEIGHTED_MESSAGE_ID_MULTISIG:
+      return [
+        {
+          contract: `${label} (${ism.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.staticIsm,
+        },
+      ];
+    case IsmType.AGGREGATION:
+      return [
+        {
+          contract: `${label} (${ism.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.staticIsm,
+        },
+        ...ism.modules.flatMap((module, i) =>
+          planIsmContracts(module, `${label}.modules[${i}]`)
+        ),
+      ];
+    case IsmType.ROUTING:
+    case IsmType.FALLBACK_ROUTING:
+      return [
+        {
+          contract: `${label} (${ism.type})`,
+          estimatedGas:
+            CORE_DEPLOY_GAS_ESTIMATES.routingIsm +
+            Object.keys(ism.domains).length *
+              CORE_DEPLOY_GAS_ESTIMATES.routingIsmDomain,
+        },
+        ...Object.entries(ism.domains).flatMap(([domain, module]) =>
+          planIsmContracts(module, `${label}.domains.${domain}`)
+        ),
+      ];
+    case IsmType.TRUSTED_RELAYER:
+      return [
+        {
+          contract: `${label} (${ism.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.trustedRelayerIsm,
+        },
+      ];
+    case IsmType.TEST_ISM:
+      return [
+        {
+          contract: `${label} (${ism.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.testIsm,
+        },
+      ];
+    default:
+      return [
+        {
+          contract: `${label} (${ism.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.other,
+        },
+      ];
+  }
+}
+
+function planHookContracts(hook: HookConfig, label: string): PlannedContract[] {
+  // Existing hooks referenced by address are not deployed
+  if (typeof hook === 'string') return [];
+
+  switch (hook.type) {
+    case HookType.MERKLE_TREE:
+      return [
+        {
+          contract: `${label} (${hook.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.merkleTreeHook,
+        },
+      ];
+    case HookType.INTERCHAIN_GAS_PAYMASTER:
+      return [
+        {
+          contract: `${label}.storageGasOracle`,
+          estimatedGas:
+            CORE_DEPLOY_GAS_ESTIMATES.storageGasOracle +
+            Object.keys(hook.oracleConfig).length *
+              CORE_DEPLOY_GAS_ESTIMATES.igpRemoteConfig,
+        },
+        {
+          contract: `${label} (${hook.type} implementation)`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.interchainGasPaymaster,
+        },
+        {
+          contract: `${label} (${hook.type} proxy)`,
+          estimatedGas:
+            CORE_DEPLOY_GAS_ESTIMATES.proxy +
+            Object.keys(hook.overhead).length *
+              CORE_DEPLOY_GAS_ESTIMATES.igpRemoteConfig,
+        },
+      ];
+    case HookType.PROTOCOL_FEE:
+      return [
+        {
+          contract: `${label} (${hook.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.protocolFee,
+        },
+      ];
+    case HookType.PAUSABLE:
+      return [
+        {
+          contract: `${label} (${hook.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.pausableHook,
+        },
+      ];
+    case HookType.AGGREGATION:
+      return [
+        {
+          contract: `${label} (${hook.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.staticHook,
+        },
+        ...hook.hooks.flatMap((subHook, i) =>
+          planHookContracts(subHook, `${label}.hooks[${i}]`)
+        ),
+      ];
+    case HookType.ROUTING:
+      return [
+        {
+          contract: `${label} (${hook.type})`,
+          estimatedGas:
+            CORE_DEPLOY_GAS_ESTIMATES.domainRoutingHook +
+            Object.keys(hook.domains).length *
+              CORE_DEPLOY_GAS_ESTIMATES.domainRoutingHookDomain,
+        },
+        ...Object.entries(hook.domains).flatMap(([domain, subHook]) =>
+          planHookContracts(subHook, `${label}.domains.${domain}`)
+        ),
+      ];
+    default:
+      return [
+        {
+          contract: `${label} (${hook.type})`,
+          estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.other,
+        },
+      ];
+  }
+}
+
+/**
+ * Lists the contracts EvmCoreModule deploys for the given config, in
+ * deployment order, with their approximate gas usage.
+ */
+export function planCoreContracts(coreConfig: CoreConfig): PlannedContract[] {
+  const ismFactories = Object.keys(ProxyFactoryFactoriesSchema.shape).map(
+    (contract) => ({
+      contract,
+      estimatedGas:
+        contract === 'domainRoutingIsmFactory'
+          ? CORE_DEPLOY_GAS_ESTIMATES.domainRoutingIsmFactory
+          : CORE_DEPLOY_GAS_ESTIMATES.ismFactory,
+    })
+  );
+
+  return [
+    ...ismFactories,
+    {
+      contract: 'proxyAdmin',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.proxyAdmin,
+    },
+    {
+      contract: 'mailbox (implementation)',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.mailbox,
+    },
+    {
+      contract: 'mailbox (proxy)',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.proxy,
+    },
+    ...planIsmContracts(coreConfig.defaultIsm, 'defaultIsm'),
+    ...planHookContracts(coreConfig.defaultHook, 'defaultHook'),
+    ...planHookContracts(coreConfig.requiredHook, 'requiredHook'),
+    {
+      contract: 'interchainAccountIsm',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.interchainAccountIsm,
+    },
+    {
+      contract: 'interchainAccountRouter',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.interchainAccountRouter,
+    },
+    {
+      contract: 'validatorAnnounce',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.validatorAnnounce,
+    },
+    {
+      contract: 'testRecipient',
+      estimatedGas: CORE_DEPLOY_GAS_ESTIMATES.testRecipient,
+    },
+  ];
+}
+
 export async function runDeployPlanStep(
-  registry: BaseRegistry,
-  chain: ChainName,
+  config: CoreDeployConfig,
   multiProvider: MultiProvider
-): Promise<void> {
+): Promise<CoreDeployPlan> {
+  const chain = config.config.chainName;
   const address = await multiProvider.getSigner(chain).getAddress();
+  const provider = multiProvider.getProvider(chain);
+
+  const coreConfig = await InitializeDeployment({
+    ism: config.ism,
+    defaultHook: config.defaultHook,
+    requiredHook: config.requiredHook,
+  });
+  const contracts = planCoreContracts(coreConfig);
+
+  const [gasPrice, balance, existingAddresses] = await Promise.all([
+    provider.getGasPrice(),
+    provider.getBalance(address),
+    config.registry.getChainAddresses(chain),
+  ]);
+  const estimatedGas = contracts.reduce(
+    (total, { estimatedGas }) => total.add(estimatedGas),
+    BigNumber.from(0)
+  );
+  const estimatedCost = estimatedGas.mul(gasPrice);
+  const sufficientBalance = balance.gte(estimatedCost);
+  const nativeTokenSymbol = config.config.tokenSymbol ?? 'ETH';
+
+  const issues: string[] = [];
+  if (!sufficientBalance) {
+    issues.push(
+      `Balance of ${address} is ${ethers.utils.formatEther(
+        balance
+      )} ${nativeTokenSymbol}, but the deployment is estimated to cost ${ethers.utils.formatEther(
+        estimatedCost
+      )} ${nativeTokenSymbol}`
+    );
+  }
+  // Chains deployed before deployments were recorded have no deploy state, a
+  // new deployment would overwrite their registry addresses
+  if (existingAddresses?.mailbox) {
+    issues.push(
+      `Mailbox already exists at address ${existingAddresses.mailbox}, ${chain} is already deployed`
+    );
+  }
+
+  const plan: CoreDeployPlan = {
+    chain,
+    signer: address,
+    coreConfig,
+    contracts,
+    existingMailbox: existingAddresses?.mailbox,
+    gasPrice: gasPrice.toString(),
+    estimatedGas: estimatedGas.toString(),
+    estimatedCost: ethers.utils.formatEther(estimatedCost),
+    balance: ethers.utils.formatEther(balance),
+    nativeTokenSymbol,
+    sufficientBalance,
+    go: issues.length === 0,
+    issues,
+  };
 
   logger.info('Deployment plan');
   logger.info('===============');
   logger.info(`Transaction signer and owner of new contracts: ${address}`);
   logger.info(`Deploying core contracts to network: ${chain}`);
+  logger.info(
+    `Estimated cost: ${plan.estimatedCost} ${nativeTokenSymbol} (${plan.estimatedGas} gas at ${plan.gasPrice} wei), balance: ${plan.balance} ${nativeTokenSymbol}`
+  );
+  logger.info(`Go/no-go: ${plan.go ? 'go' : `no-go (${issues.join('; ')})`}`);
 
-  await confirmExistingMailbox(registry, chain);
+  return plan;
 }
 
 export async function runPreflightChecksForChains(
@@ -104,11 +406,14 @@ export async function runPreflightChecksForChains(
     assertSigner(signer);
   }
 
-  await nativeBalancesAreSufficient(
+  const sufficient = await nativeBalancesAreSufficient(
     multiProvider,
     chainsToGasCheck ?? chains,
     minGas
   );
+  if (!sufficient) {
+    throw new Error('Insufficient native balance for deployment');
+  }
 }
 
 export async function completeDeploy(
@@ -177,16 +482,27 @@ export async function createChainConfig(
   }
 }
 
-export async function InitializeDeployment(): Promise<CoreConfig> {
-  const defaultIsm = await createMultisignConfig(IsmType.MERKLE_ROOT_MULTISIG);
-  const defaultHook = await createMerkleTreeConfig();
-  const requiredHook = await createMerkleTreeConfig();
-
+export async function InitializeDeployment({
+  ism = { type: 'merkleRootMultisig' },
+  defaultHook: defaultHookOptions = { type: 'merkleTree' },
+  requiredHook: requiredHookOptions = { type: 'merkleTree' },
+}: {
+  ism?: IsmOptions;
+  defaultHook?: HookOptions;
+  requiredHook?: HookOptions;
+} = {}): Promise<CoreConfig> {
   if (!process.env.PRIVATE_KEY) {
     throw new Error('PRIVATE_KEY environment variable is required');
   }
   const owner = await privateKeyToSigner(process.env.PRIVATE_KEY);
 
+  const defaultIsm = await createIsmConfig(ism, owner.address);
+  const defaultHook = await createHookConfig(defaultHookOptions, owner.address);
+  const requiredHook = await createHookConfig(
+    requiredHookOptions,
+    owner.address
+  );
+
   const proxyAdmin: OwnableConfig = {
     owner: owner.address,
   };
@@ -209,9 +525,27 @@ export async function InitializeDeployment(): Promise<CoreConfig> {
   }
 }
 
-export async function runCoreDeploy(
+function getHookRemotes(hook?: HookOptions | ModuleHookOptions): ChainName[] {
+  if (!hook) return [];
+  const subHooks = [
+    ...('domains' in hook ? Object.values(hook.domains ?? {}) : []),
+    ...('hooks' in hook ? hook.hooks ?? [] : []),
+  ];
+  return [
+    ...Object.keys(hook.overhead ?? {}),
+    ...Object.keys(hook.oracleConfig ?? {}),
+    ...('domains' in hook ? Object.keys(hook.domains ?? {}) : []),
+    ...subHooks.flatMap((subHook) => getHookRemotes(subHook)),
+  ];
+}
+
+/**
+ * Builds a MultiProvider for the chain being deployed, plus the metadata of
+ * every remote chain referenced by the ISM and hook options.
+ */
+async function getCoreDeployMultiProvider(
   config: CoreDeployConfig
-): Promise<Record<string, string>> {
+): Promise<MultiProvider> {
   if (!process.env.PRIVATE_KEY) {
     throw new Error('PRIVATE_KEY environment variable is required');
   }
@@ -244,7 +578,44 @@ export async function runCoreDeploy(
     }
   );
 
-  const userAddress = signer.address;
+  // Routing ISMs, IGP oracle configs and routing hooks are keyed by remote
+  // chain name, so the deployer needs the metadata of every remote to resolve
+  // their domain IDs
+  const remotes = new Set([
+    ...Object.keys(config.ism?.domains ?? {}),
+    ...getHookRemotes(config.defaultHook),
+    ...getHookRemotes(config.requiredHook),
+  ]);
+  for (const remote of remotes) {
+    if (multiProvider.tryGetChainMetadata(remote)) continue;
+    const remoteMetadata = await config.registry.getChainMetadata(remote);
+    if (!remoteMetadata) {
+      throw new Error(`No chain metadata found for remote chain ${remote}`);
+    }
+    multiProvider.addChain(remoteMetadata);
+  }
+
+  return multiProvider;
+}
+
+/**
+ * Resolves the core config of a deployment and estimates its cost without
+ * sending any transaction.
+ */
+export async function planCoreDeploy(
+  config: CoreDeployConfig
+): Promise<CoreDeployPlan> {
+  const multiProvider = await getCoreDeployMultiProvider(config);
+  return runDeployPlanStep(config, multiProvider);
+}
+
+export async function runCoreDeploy(
+  config: CoreDeployConfig
+): Promise<Record<string, string>> {
+  const chain = config.config.chainName;
+  const multiProvider = await getCoreDeployMultiProvider(config);
+
+  const userAddress = await multiProvider.getSigner(chain).getAddress();
   logger.info(`Preparing to deploy core contracts to ${chain}`);
 
   const initialBalances = await prepareDeploy({
@@ -255,11 +626,249 @@ export async function runCoreDeploy(
 
   logger.info(`Initial balances: ${initialBalances}`);
 
-  await runDeployPlanStep(config.registry, chain, multiProvider);
+  const { coreConfig, go, issues } = await runDeployPlanStep(
+    config,
+    multiProvider
+  );
+  if (!go) {
+    throw new Error(`Deployment of ${chain} is a no-go: ${issues.join('; ')}`);
+  }
 
   logger.info(`Predepoly checks complete`);
 
-  const coreConfig = await InitializeDeployment();
+  const state: CoreDeployState = {
+    chainName: chain,
+    status: 'in-progress',
+    config: config.config,
+    ism: config.ism,
+    defaultHook: config.defaultHook,
+    requiredHook: config.requiredHook,
+    contracts: { core: {}, interchainAccounts: {} },
+    updatedAt: new Date().toISOString(),
+  };
+
+  const deployedAddresses = await executeCoreDeploy(
+    multiProvider,
+    coreConfig,
+    state
+  );
+
+  await completeDeploy(multiProvider, initialBalances, userAddress, [chain]);
+
+  config.registry.updateChain({
+    chainName: chain,
+    addresses: deployedAddresses,
+  });
+
+  return deployedAddresses; // Return the deployed addresses as the function output
+}
+
+export type MultiChainDeployStatus =
+  | 'deployed'
+  | 'resumed'
+  | 'existing'
+  | 'failed';
+
+export interface MultiChainDeployResult {
+  chain: ChainName;
+  status: MultiChainDeployStatus;
+  addresses?: Record<string, string>;
+  error?: string;
+}
+
+/**
+ * Deploys core contracts to several chains at once and wires them together:
+ * each chain gets a routing ISM with a multisig ISM per remote, and an IGP
+ * priced with the current gas price of every remote. Chains whose deployment
+ * already completed, or that have a mailbox in the registry without a deploy
+ * state, are left untouched and unfinished ones are resumed.
+ */
+export async function runMultiChainCoreDeploy({
+  configs,
+  registry,
+  validators,
+  threshold,
+}: {
+  configs: ChainConfig[];
+  registry: BaseRegistry;
+  validators?: Address[];
+  threshold?: number;
+}): Promise<MultiChainDeployResult[]> {
+  const chainNames = configs.map(({ chainName }) => chainName);
+  const duplicates = chainNames.filter(
+    (chain, i) => chainNames.indexOf(chain) !== i
+  );
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate chains in deployment: ${duplicates.join(', ')}`);
+  }
+
+  const states = Object.fromEntries(
+    chainNames.map((chain) => [chain, loadCoreDeployState(chain)])
+  );
+  // Chains deployed before deployments were recorded have no deploy state,
+  // only their registry addresses
+  const registeredAddresses = Object.fromEntries(
+    await Promise.all(
+      chainNames.map(async (chain) => [
+        chain,
+        states[chain] ? null : await registry.getChainAddresses(chain),
+      ])
+    )
+  );
+
+  // Remote metadata is resolved from the registry, so every chain has to be
+  // registered before any deployment starts
+  for (const config of configs) {
+    if (states[config.chainName]) continue;
+    if (registeredAddresses[config.chainName]?.mailbox) continue;
+    await createChainConfig({ config, registry });
+  }
+
+  const gasPrices = Object.fromEntries(
+    await Promise.all(
+      configs.map(async ({ chainName, rpcUrl }) => {
+        const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
+        return [chainName, (await provider.getGasPrice()).toString()];
+      })
+    )
+  );
+
+  // Chains only share the deployer key, so deploying them in parallel cannot
+  // cause nonce conflicts
+  const results = await Promise.allSettled(
+    configs.map(async (config): Promise<MultiChainDeployResult> => {
+      const chain = config.chainName;
+      const state = states[chain];
+      if (state?.status === 'completed' && state.addresses) {
+        return { chain, status: 'existing', addresses: state.addresses };
+      }
+      if (state) {
+        const addresses = await resumeCoreDeploy(chain, registry);
+        return { chain, status: 'resumed', addresses };
+      }
+      const registered = registeredAddresses[chain];
+      if (registered?.mailbox) {
+        return { chain, status: 'existing', addresses: registered };
+      }
+
+      const remotes = chainNames.filter((remote) => remote !== chain);
+      const addresses = await runCoreDeploy({
+        config,
+        registry,
+        ism: {
+          type: 'routing',
+          domains: Object.fromEntries(
+            remotes.map((remote) => [
+              remote,
+              { type: 'merkleRootMultisig', validators, threshold },
+            ])
+          ),
+        },
+        defaultHook: {
+          type: 'interchainGasPaymaster',
+          oracleConfig: Object.fromEntries(
+            remotes.map((remote) => [
+              remote,
+              {
+                gasPrice: gasPrices[remote],
+                tokenExchangeRate: DEFAULT_TOKEN_EXCHANGE_RATE,
+              },
+            ])
+          ),
+        },
+        requiredHook: { type: 'merkleTree' },
+      });
+      return { chain, status: 'deployed', addresses };
+    })
+  );
+
+  return results.map((result, i) => {
+    if (result.status === 'fulfilled') return result.value;
+    logger.error(
+      `Core deployment of ${chainNames[i]} failed: ${result.reason}`
+    );
+    return {
+      chain: chainNames[i],
+      status: 'failed',
+      error: String(result.reason),
+    };
+  });
+}
+
+/**
+ * Continues an unfinished core deployment from its persisted state, reusing
+ * the proxies, factories, ISMs and hooks deployed by previous attempts.
+ */
+export async function resumeCoreDeploy(
+  chainName: ChainName,
+  registry: BaseRegistry
+): Promise<Record<string, string>> {
+  const state = loadCoreDeployState(chainName);
+  if (!state) {
+    throw new Error(`No core deployment found for ${chainName}`);
+  }
+  if (state.status === 'completed' && state.addresses) {
+    logger.info(`Core deployment of ${chainName} already completed`);
+    return state.addresses;
+  }
+
+  const config: CoreDeployConfig = {
+    config: state.config,
+    registry,
+    ism: state.ism,
+    defaultHook: state.defaultHook,
+    requiredHook: state.requiredHook,
+  };
+  const multiProvider = await getCoreDeployMultiProvider(config);
+  const userAddress = await multiProvider.getSigner(chainName).getAddress();
+  const initialBalances = await prepareDeploy({
+    userAddress,
+    chains: [chainName],
+    multiProvider,
+  });
+
+  logger.info(
+    `Resuming core deployment of ${chainName} with deployed contracts: ${JSON.stringify(
+      state.contracts,
+      null,
+      2
+    )}`
+  );
+
+  const coreConfig = await InitializeDeployment({
+    ism: state.ism,
+    defaultHook: state.defaultHook,
+    requiredHook: state.requiredHook,
+  });
+  const deployedAddresses = await executeCoreDeploy(
+    multiProvider,
+    coreConfig,
+    state
+  );
+
+  await completeDeploy(multiProvider, initialBalances, userAddress, [
+    chainName,
+  ]);
+
+  registry.updateChain({
+    chainName,
+    addresses: deployedAddresses,
+  });
+
+  return deployedAddresses;
+}
+
+/**
+ * Deploys the same contracts as EvmCoreModule, recording every contract in the
+ * deployment state as soon as it is deployed. The SDK deployers recover any
+ * contract already present in their address cache instead of redeploying it.
+ */
+async function executeCoreDeploy(
+  multiProvider: MultiProvider,
+  coreConfig: CoreConfig,
+  state: CoreDeployState
+): Promise<Record<string, string>> {
+  const chain = state.chainName;
 
   writeYamlOrJson(
     path.join(
@@ -273,56 +882,115 @@ export async function runCoreDeploy(
   );
 
   logger.info(`Core config: ${JSON.stringify(coreConfig, null, 2)}`);
-  logger.info(`Creating core module...`);
+  logger.info(`Deploying core contracts to ${chain}`);
 
-  let evmCoreModule: EvmCoreModule;
+  state.status = 'in-progress';
+  state.error = undefined;
+  saveCoreDeployState(state);
+
+  const coreCache = persistOnWrite(state, state.contracts.core);
+  const icaCache = persistOnWrite(state, state.contracts.interchainAccounts);
 
   try {
-    evmCoreModule = await EvmCoreModule.create({
-      chain,
-      config: coreConfig,
-      multiProvider,
-      // contractVerifier,
-    });
+    const proxyFactoryDeployer = new HyperlaneProxyFactoryDeployer(
+      multiProvider
+    );
+    // Core contracts, ISM factories and hooks share one cache, deployers only
+    // fill in what is missing
+    const coreCacheMap: ChainMap<
+      Partial<ProxyFactoryFactoriesAddresses & CoreAddresses>
+    > = { [chain]: coreCache };
+    proxyFactoryDeployer.cacheAddressesMap(coreCacheMap);
+    const ismFactoryContracts = await proxyFactoryDeployer.deployContracts(
+      chain
+    );
 
-    // logger.info(
-    //   `Core module created: ${JSON.stringify(evmCoreModule, null, 2)}`
-    // );
-  } catch (e) {
-    logger.error(`Error in creating core module: ${e}`);
-    logger.error(
-      `Error in creating core module: ${JSON.stringify(e, null, 2)}`
+    const ismFactory = new HyperlaneIsmFactory(
+      { [chain]: ismFactoryContracts },
+      multiProvider
     );
-    throw new Error(`Error in creating core module: ${e}`);
-  }
+    const coreDeployer = new HyperlaneCoreDeployer(multiProvider, ismFactory);
+    // Typed as complete addresses by the SDK, contracts missing from the cache
+    // are deployed
+    coreDeployer.cacheAddressesMap(coreCacheMap as ChainMap<CoreAddresses>);
 
-  logger.info(`Core module created: ${JSON.stringify(evmCoreModule, null, 2)}`);
-  logger.info(`Deploying core contracts to ${chain}`);
+    // ISMs are not recovered from the cache, so reuse the default ISM of a
+    // previous attempt by address
+    const coreContracts = await coreDeployer.deployContracts(chain, {
+      ...coreConfig,
+      defaultIsm: coreCache.interchainSecurityModule ?? coreConfig.defaultIsm,
+    });
 
-  await completeDeploy(multiProvider, initialBalances, userAddress, [chain]);
-  const deployedAddresses = evmCoreModule.serialize();
+    const owner = await multiProvider.getSignerAddress(chain);
+    const icaDeployer = new InterchainAccountDeployer(multiProvider);
+    icaDeployer.cacheAddressesMap({ [chain]: icaCache });
+    const icaContracts = await icaDeployer.deployContracts(chain, {
+      mailbox: coreContracts.mailbox.address,
+      owner,
+      ...(icaCache.proxyAdmin && {
+        proxyAdmin: { address: icaCache.proxyAdmin, owner },
+      }),
+    });
+    // The router deployer does not cache its proxy admin
+    icaCache.proxyAdmin = icaContracts.proxyAdmin.address;
 
-  logger.info(
-    `Deployed addresses: ${JSON.stringify(deployedAddresses, null, 2)}`
-  );
+    // Hooks and the test recipient are only tracked in the deployed contracts
+    // of the core deployer
+    const coreAddresses: Record<string, string> = serializeContractsMap(
+      coreDeployer.deployedContracts
+    )[chain];
 
-  config.registry.updateChain({
-    chainName: chain,
-    addresses: deployedAddresses,
-  });
+    const deployedAddresses: Record<string, string> = {
+      ...serializeContracts(ismFactoryContracts),
+      proxyAdmin: coreContracts.proxyAdmin.address,
+      mailbox: coreContracts.mailbox.address,
+      interchainAccountRouter: icaContracts.interchainAccountRouter.address,
+      interchainAccountIsm: icaContracts.interchainAccountIsm.address,
+      validatorAnnounce: coreContracts.validatorAnnounce.address,
+      testRecipient: coreAddresses.testRecipient,
+      ...(coreAddresses.merkleTreeHook && {
+        merkleTreeHook: coreAddresses.merkleTreeHook,
+      }),
+      ...(coreAddresses.interchainGasPaymaster && {
+        interchainGasPaymaster: coreAddresses.interchainGasPaymaster,
+      }),
+    };
 
-  return deployedAddresses; // Return the deployed addresses as the function output
+    logger.info(
+      `Deployed addresses: ${JSON.stringify(deployedAddresses, null, 2)}`
+    );
+
+    state.status = 'completed';
+    state.addresses = deployedAddresses;
+    saveCoreDeployState(state);
+
+    return deployedAddresses;
+  } catch (e) {
+    logger.error(`Error in deploying core contracts: ${e}`);
+    state.status = 'failed';
+    state.error = String(e);
+    saveCoreDeployState(state);
+    throw new Error(
+      `Error in deploying core contracts to ${chain}: ${e}. Deployed contracts were saved, use resume-chain-deploy to continue`
+    );
+  }
 }
 
+/**
+ * Builds one agent config covering all the given chains and writes it as the
+ * agent config of each of them, so validators and relayers of any of these
+ * chains see every other chain.
+ */
 export async function createAgentConfigs(
   registry: BaseRegistry,
   multiProvider: MultiProvider,
   out: string,
-  chainName: string
-): Promise<void> {
+  chainNames: ChainName | ChainName[]
+): Promise<string[]> {
+  const chains = Array.isArray(chainNames) ? chainNames : [chainNames];
   const addresses = await registry.getAddresses();
   logger.info(`Addresses: ${JSON.stringify(addresses, null, 2)}`);
-  const chainAddresses = filterAddresses(addresses, [chainName]);
+  const chainAddresses = filterAddresses(addresses, chains);
 
   logger.info(`chainAddresses: ${JSON.stringify(chainAddresses, null, 2)}`);
 
@@ -352,42 +1020,13 @@ export async function createAgentConfigs(
   if (!fs.existsSync(path.dirname(out))) {
     fs.mkdirSync(path.dirname(out), { recursive: true });
   }
-  writeYamlOrJson(
-    path.join(out, `${chainName}-agent-config.json`),
-    agentConfig,
-    'json'
+  const filePaths = chains.map((chainName) =>
+    path.join(out, `${chainName}-agent-config.json`)
   );
-  logger.info(`Agent config written to ${out}`);
-}
-
-export function getChainDeployConfigPath(chainName: string): string {
-  const homeDir = process.env.CACHE_DIR || process.env.HOME!;
-  const mcpDir = path.join(homeDir, '.hyperlane-mcp');
-
-  // Create directory if it doesn't exist
-  if (!fs.existsSync(mcpDir)) {
-    fs.mkdirSync(mcpDir, { recursive: true });
-  }
-
-  return path.join(mcpDir, `chain-${chainName}-deploy.yaml`);
-}
-
-export async function saveChainDeployConfig(
-  config: ChainConfig
-): Promise<string> {
-  const filePath = getChainDeployConfigPath(config.chainName);
-  await writeYamlOrJson(filePath, config, 'yaml');
-  return filePath;
-}
-
-export async function loadChainDeployConfig(
-  chainName: string
-): Promise<ChainConfig | null> {
-  const filePath = getChainDeployConfigPath(chainName);
-  if (!fs.existsSync(filePath)) {
-    return null;
+  for (const filePath of filePaths) {
+    writeYamlOrJson(filePath, agentConfig, 'json');
   }
+  logger.info(`Agent config written to ${out}`);
 
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return yamlParse(content) as ChainConfig;
+  return filePaths;
 }
@@ -4,8 +4,8 @@ import {
   ChainMetadata,
   MultiProvider,
   TokenType,
+  WarpCoreConfig,
   WarpCoreConfigSchema,
-  WarpRouteDeployConfig,
 } from '@hyperlane-xyz/sdk';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
@@ -18,22 +18,75 @@ import { ethers } from 'ethers';
 import fs from 'fs';
 import path from 'path';
 import URITemplate from 'uri-templates';
-import * as yaml from 'yaml';
 import { z } from 'zod';
-import { assetTransfer } from './assetTransfer.js';
+import {
+  AMOUNT_UNITS,
+  assetTransfer,
+  DEFAULT_HOP_TIMEOUT_SECONDS,
+  getHopAmounts,
+  getHopTokenCandidates,
+  summarizeWarpRoute,
+  summarizeWarpRouteToken,
+} from './assetTransfer.js';
 import { LocalRegistry } from './localRegistry.js';
-import { msgTransfer } from './msgTransfer.js';
-import { TYPE_CHOICES } from './types.js';
+import {
+  DEFAULT_STUCK_AFTER_SECONDS,
+  getMessageStatus,
+  waitForMessageDelivery,
+} from './messageStatus.js';
+import {
+  encodeMessageBody,
+  MESSAGE_BODY_ENCODINGS,
+  msgTransfer,
+  quoteMessageFee,
+} from './msgTransfer.js';
+import { nftTransfer } from './nftTransfer.js';
+import {
+  ChainConfig,
+  HookOptionsSchema,
+  IsmOptionsSchema,
+  TYPE_CHOICES,
+  WarpChainOptionsSchema,
+} from './types.js';
 import { privateKeyToSigner } from './utils.js';
-import { createWarpRouteDeployConfig, deployWarpRoute } from './warpRoute.js';
+import { applyWarpRoute, checkWarpRoute, readWarpRoute } from './warpModule.js';
+import {
+  createWarpRouteDeployConfig,
+  deployWarpRoute,
+  extendWarpRoute,
+} from './warpRoute.js';
 
 import { ProtocolType } from '@hyperlane-xyz/utils';
 import {
   createAgentConfigs,
   createChainConfig,
-  loadChainDeployConfig,
+  planCoreDeploy,
+  resumeCoreDeploy,
   runCoreDeploy,
+  runMultiChainCoreDeploy,
 } from './hyperlaneDeployer.js';
+import { loadCoreDeployState } from './coreDeployState.js';
+import {
+  applyCoreConfig,
+  checkCoreConfig,
+  readCoreConfig,
+} from './coreModule.js';
+import {
+  AGENT_ROLES,
+  findAgent,
+  listAgents,
+  removeAgent,
+  restartAgent,
+  stopAgent,
+} from './agents.js';
+import { AGENT_LOG_LEVELS, getAgentLogs } from './agentLogs.js';
+import { getAgentHealth } from './agentHealth.js';
+import {
+  announceValidator,
+  getValidatorAnnouncement,
+  reannounceLegacyValidator,
+} from './validatorAnnounce.js';
+import { startLocalS3 } from './checkpointSyncer.js';
 import { RelayerRunner } from './RunRelayer.js';
 import { ValidatorRunner } from './RunValidator.js';
 import logger from './logger.js';
@@ -70,7 +123,7 @@ const server = new McpServer(
 
 // Create directory for hyperlane-mcp if it doesn't exist
 const homeDir = process.env.CACHE_DIR || process.env.HOME;
-let mcpDir;
+let mcpDir: string;
 if (homeDir) {
   mcpDir = path.join(homeDir, '.hyperlane-mcp');
   if (!fs.existsSync(mcpDir)) {
@@ -183,13 +236,73 @@ server.tool(
       .length(42)
       .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address')
       .describe('Recipient address'),
-    messageBody: z.string().describe('Message body'),
+    messageBody: z
+      .string()
+      .describe(
+        'Message body. A JSON array of arguments when bodyEncoding is "abi"'
+      ),
+    bodyEncoding: z
+      .enum(MESSAGE_BODY_ENCODINGS)
+      .default('utf8')
+      .describe(
+        'How to encode the message body: "utf8" (full length text), "hex" (raw 0x-prefixed bytes), "abi" (ABI-encode the JSON args with abiSignature) or "bytes32" (legacy, max 31 characters)'
+      ),
+    abiSignature: z
+      .string()
+      .optional()
+      .describe(
+        'Function signature (e.g. "handleOrder(uint256,address)") or comma-separated types (e.g. "uint256,address") used when bodyEncoding is "abi"'
+      ),
+    selfRelay: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Deliver the message directly on the destination chain using local validator checkpoints instead of waiting for a relayer'
+      ),
+    waitForDelivery: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Wait for the message to be delivered on the destination chain before returning'
+      ),
+    deliveryTimeoutSeconds: z
+      .number()
+      .positive()
+      .default(300)
+      .describe(
+        'Maximum time to wait for delivery when waitForDelivery is set'
+      ),
+    destinationGasLimit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Gas limit to pay for on the destination chain (defaults to the hook default)'
+      ),
+    customHookMetadata: z
+      .string()
+      .regex(/^0x([a-fA-F0-9]{2})*$/, 'Invalid hex string')
+      .optional()
+      .describe('Custom metadata appended to the standard hook metadata'),
   },
-  async ({ origin, destination, recipient, messageBody }) => {
+  async ({
+    origin,
+    destination,
+    recipient,
+    messageBody,
+    bodyEncoding,
+    abiSignature,
+    selfRelay,
+    waitForDelivery,
+    deliveryTimeoutSeconds,
+    destinationGasLimit,
+    customHookMetadata,
+  }) => {
     server.server.sendLoggingMessage({
       level: 'info',
       data: `Starting cross-chain message transfer...
-Parameters: origin=${origin}, destination=${destination}, recipient=${recipient}, messageBody=${messageBody}`,
+Parameters: origin=${origin}, destination=${destination}, recipient=${recipient}, messageBody=${messageBody}, bodyEncoding=${bodyEncoding}, selfRelay=${selfRelay}, waitForDelivery=${waitForDelivery}`,
     });
 
     server.server.sendLoggingMessage({
@@ -239,13 +352,20 @@ Parameters: origin=${origin}, destination=${destination}, recipient=${recipient}
       data: 'Initiating message transfer...',
     });
 
-    const [dispatchTx, message] = await msgTransfer({
+    const [dispatchTx, message, fee, processTx] = await msgTransfer({
       origin,
       destination,
       recipient,
-      messageBody: ethers.utils.formatBytes32String(messageBody),
+      messageBody: encodeMessageBody({
+        messageBody,
+        bodyEncoding,
+        abiSignature,
+      }),
       registry,
       multiProvider,
+      destinationGasLimit,
+      customHookMetadata,
+      selfRelay,
     });
 
     server.server.sendLoggingMessage({
@@ -253,11 +373,272 @@ Parameters: origin=${origin}, destination=${destination}, recipient=${recipient}
       data: 'Message transfer completed successfully',
     });
 
+    if (processTx) {
+      server.server.sendLoggingMessage({
+        level: 'info',
+        data: `Message self-relayed on ${destination}. Transaction Hash: ${processTx.transactionHash}`,
+      });
+    }
+
+    const interchainGasFee = {
+      wei: fee.toString(),
+      formatted: `${ethers.utils.formatEther(fee)} ${
+        originChainMetadata.nativeToken?.symbol ?? 'ETH'
+      }`,
+    };
+
+    if (waitForDelivery) {
+      server.server.sendLoggingMessage({
+        level: 'info',
+        data: `Waiting up to ${deliveryTimeoutSeconds}s for message ${message.id} to be delivered on ${destination}...`,
+      });
+
+      const status = await waitForMessageDelivery({
+        origin,
+        destination,
+        messageId: message.id,
+        registry,
+        multiProvider,
+        dispatchBlock: dispatchTx.blockNumber,
+        timeoutSeconds: deliveryTimeoutSeconds,
+      });
+
+      return {
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify({ ...status, interchainGasFee }, null, 2),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Message dispatched successfully. Transaction Hash: ${
+            dispatchTx.transactionHash
+          }.\n Message ID for the dispatched message: ${
+            message.id
+          }\n Interchain gas paid: ${interchainGasFee.formatted} (${
+            interchainGasFee.wei
+          } wei)${
+            processTx
+              ? `\n Self-relayed on ${destination}. Process Transaction Hash: ${processTx.transactionHash}`
+              : ''
+          }`,
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'quote-message-fee',
+  'Quotes the interchain gas fee the origin Mailbox charges to dispatch a cross-chain message.',
+  {
+    origin: z.string().describe('Origin chain'),
+    destination: z.string().describe('Destination chain'),
+    recipient: z
+      .string()
+      .length(42)
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address')
+      .describe('Recipient address'),
+    messageBody: z
+      .string()
+      .describe(
+        'Message body. A JSON array of arguments when bodyEncoding is "abi"'
+      ),
+    bodyEncoding: z
+      .enum(MESSAGE_BODY_ENCODINGS)
+      .default('utf8')
+      .describe(
+        'How to encode the message body: "utf8" (full length text), "hex" (raw 0x-prefixed bytes), "abi" (ABI-encode the JSON args with abiSignature) or "bytes32" (legacy, max 31 characters)'
+      ),
+    abiSignature: z
+      .string()
+      .optional()
+      .describe(
+        'Function signature (e.g. "handleOrder(uint256,address)") or comma-separated types (e.g. "uint256,address") used when bodyEncoding is "abi"'
+      ),
+    destinationGasLimit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Gas limit to pay for on the destination chain (defaults to the hook default)'
+      ),
+    customHookMetadata: z
+      .string()
+      .regex(/^0x([a-fA-F0-9]{2})*$/, 'Invalid hex string')
+      .optional()
+      .describe('Custom metadata appended to the standard hook metadata'),
+  },
+  async ({
+    origin,
+    destination,
+    recipient,
+    messageBody,
+    bodyEncoding,
+    abiSignature,
+    destinationGasLimit,
+    customHookMetadata,
+  }) => {
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Quoting message fee from ${origin} to ${destination}...`,
+    });
+
+    const originChainMetadata = (await registry.getChainMetadata(origin))!;
+    const chainMetadata: ChainMap<ChainMetadata> = {
+      [origin]: originChainMetadata,
+      [destination]: (await registry.getChainMetadata(destination))!,
+    };
+    const multiProvider = new MultiProvider(chainMetadata);
+
+    const fee = await quoteMessageFee({
+      origin,
+      destination,
+      recipient,
+      messageBody: encodeMessageBody({
+        messageBody,
+        bodyEncoding,
+        abiSignature,
+      }),
+      registry,
+      multiProvider,
+      refundAddress: signer.address,
+      destinationGasLimit,
+      customHookMetadata,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(
+            {
+              origin,
+              destination,
+              wei: fee.toString(),
+              formatted: `${ethers.utils.formatEther(fee)} ${
+                originChainMetadata.nativeToken?.symbol ?? 'ETH'
+              }`,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'get-message-status',
+  'Tracks a dispatched Hyperlane message and reports whether it is dispatched, delivered or stuck, along with the process transaction hash and elapsed time.',
+  {
+    origin: z.string().describe('Origin chain the message was dispatched on'),
+    destination: z.string().describe('Destination chain of the message'),
+    messageId: z
+      .string()
+      .regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid message ID')
+      .describe('Message ID returned by the dispatch'),
+    dispatchBlock: z
+      .number()
+      .int()
+      .optional()
+      .describe(
+        'Block number of the dispatch transaction. Required if the message was dispatched outside the recent block range'
+      ),
+    stuckAfterSeconds: z
+      .number()
+      .positive()
+      .default(DEFAULT_STUCK_AFTER_SECONDS)
+      .describe(
+        'Seconds after dispatch at which an undelivered message is reported as stuck'
+      ),
+  },
+  async ({
+    origin,
+    destination,
+    messageId,
+    dispatchBlock,
+    stuckAfterSeconds,
+  }) => {
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Fetching status of message ${messageId} from ${origin} to ${destination}...`,
+    });
+
+    const chainMetadata: ChainMap<ChainMetadata> = {
+      [origin]: (await registry.getChainMetadata(origin))!,
+      [destination]: (await registry.getChainMetadata(destination))!,
+    };
+    const multiProvider = new MultiProvider(chainMetadata);
+
+    try {
+      const status = await getMessageStatus({
+        origin,
+        destination,
+        messageId,
+        registry,
+        multiProvider,
+        dispatchBlock,
+        stuckAfterSeconds,
+      });
+
+      return {
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify(status, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      server.server.sendLoggingMessage({
+        level: 'error',
+        data: `Error fetching status of message ${messageId}: ${error}`,
+      });
+      throw error;
+    }
+  }
+);
+
+server.tool(
+  'list-warp-routes',
+  'Lists warp routes in the local and GitHub registries with their route IDs, chains, token standards, router addresses and collateral tokens. Use a route ID to pick a route for cross-chain-asset-transfer.',
+  {
+    symbol: z.string().optional().describe('Only list routes of this symbol'),
+    chains: z
+      .array(z.string())
+      .optional()
+      .describe('Only list routes that include all these chains'),
+  },
+  async ({ symbol, chains }) => {
+    const warpRoutes = await registry.findWarpRoutesBySymbolAndChains(
+      symbol,
+      chains
+    );
+
     return {
       content: [
         {
+          mimeType: 'application/json',
           type: 'text',
-          text: `Message dispatched successfully. Transaction Hash: ${dispatchTx.transactionHash}.\n Message ID for the dispatched message: ${message.id}`,
+          text: JSON.stringify(
+            Object.entries(warpRoutes).map(([routeId, warpCoreConfig]) =>
+              summarizeWarpRoute(routeId, warpCoreConfig)
+            ),
+            null,
+            2
+          ),
         },
       ],
     };
@@ -278,23 +659,54 @@ server.tool(
     '• Sufficient gas tokens on all involved chains for transaction fees\n\n' +
     'PARAMETERS:\n' +
     '• symbol: The token identifier (e.g., "USDC", "ETH", "WBTC")\n' +
+    '• routeId: ID of the warp route to use, from `list-warp-routes` (optional, required when several routes match)\n' +
+    '• tokenAddresses: Router or collateral token address per chain (optional, picks a token when a route has several on a chain)\n' +
     '• chains: Array of blockchain names in transfer order (e.g., ["ethereum", "polygon", "arbitrum"])\n' +
-    '• amount: Token amount in wei or smallest token units (e.g., "1000000" for 1 USDC with 6 decimals)\n' +
+    '• amount: Token amount, a decimal number (e.g., "1.5") or an integer in base units depending on amountUnit\n' +
+    '• amountUnit: "human" for whole tokens (e.g., "1.5" USDC), "base" for the smallest token units of the first origin chain (e.g., "1500000" for 1.5 USDC with 6 decimals), defaults to "base"\n' +
     '• recipient: Destination wallet address (defaults to sender if not specified)\n\n' +
     'OUTPUT:\n' +
     '• Returns transaction hashes and message IDs for each cross-chain transfer\n' +
-    '• Each transfer between adjacent chains generates one transaction\n' +
-    '• Use message IDs to track delivery status across chains\n\n' +
+    '• Echoes the amount sent and expected on the destination of each hop, both in human and base units\n' +
+    '• Lists the ERC20 approval and the transfer of each hop as separate steps\n' +
+    '• Stops before sending a hop that fails validation and returns a structured error: INVALID_RECIPIENT, INSUFFICIENT_BALANCE, INSUFFICIENT_DESTINATION_COLLATERAL, INSUFFICIENT_INTERCHAIN_GAS or INVALID_TRANSFER\n' +
+    '• With dryRun, returns the fee quote and unsigned transactions of each hop without sending anything\n' +
+    '• Intermediate hops go to the sender and are sent on once delivered, by self-relaying or by waiting for a relayer, with the amount actually received (the change of the sender balance on the intermediate chain). A hop that received less than expected reports a warning, one that received nothing stops the transfer with HOP_AMOUNT_NOT_RECEIVED. Each hop reports its status (dispatched, delivered or stuck), including when the transfer stops part way\n' +
+    '• Use message IDs to track delivery status across chains\n' +
+    '• When several routes or tokens match, nothing is sent and the candidates are returned instead\n\n' +
     'EXAMPLE USE CASES:\n' +
     '• Bridge USDC from Ethereum to Polygon\n' +
     '• Multi-hop transfer: ETH from Ethereum → Arbitrum → Base\n' +
     '• Cross-chain token arbitrage or yield farming',
   {
-    symbol: z.string().describe('Token symbol to transfer'),
+    symbol: z
+      .string()
+      .optional()
+      .describe('Token symbol to transfer (optional when routeId is given)'),
+    routeId: z
+      .string()
+      .optional()
+      .describe('ID of the warp route to use, as listed by list-warp-routes'),
+    tokenAddresses: z
+      .record(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address'))
+      .optional()
+      .describe(
+        'Router or collateral token address per chain, to pick a token when several match'
+      ),
     chains: z
       .array(z.string())
       .describe('Chains to transfer asset between in order of transfer'),
-    amount: z.string().describe('Amount to transfer (in wei or token units)'),
+    amount: z
+      .string()
+      .describe(
+        'Amount to transfer, a decimal number of tokens or an integer in base units depending on amountUnit'
+      ),
+    amountUnit: z
+      .enum(AMOUNT_UNITS)
+      .default('base')
+      .describe(
+        'Unit of amount: "human" for whole tokens (e.g. "1.5"), converted with the token decimals of the first chain, or "base" (default) for the smallest units of the token on the first chain'
+      ),
     recipient: z
       .string()
       .length(42)
@@ -302,36 +714,140 @@ server.tool(
       .optional()
       .default(signer.address)
       .describe('Recipient address'),
+    selfRelay: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Deliver each transfer directly on the destination chain using local validator checkpoints instead of waiting for a relayer'
+      ),
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Only validate and quote the transfer: returns the interchain and local gas fees and the unsigned approval and transfer transactions of each hop without sending anything'
+      ),
+    hopTimeoutSeconds: z
+      .number()
+      .positive()
+      .default(DEFAULT_HOP_TIMEOUT_SECONDS)
+      .describe(
+        'Maximum time to wait for each intermediate hop to be delivered before the amount received is sent on'
+      ),
   },
-  async ({ symbol, chains, amount, recipient }) => {
+  async ({
+    symbol,
+    routeId,
+    tokenAddresses,
+    chains,
+    amount,
+    amountUnit,
+    recipient,
+    selfRelay,
+    dryRun,
+    hopTimeoutSeconds,
+  }) => {
     server.server.sendLoggingMessage({
       level: 'info',
       data: `Starting cross-chain asset transfer...
-Parameters: symbol=${symbol}, chains=${chains.join(
+Parameters: symbol=${symbol}, routeId=${routeId}, chains=${chains.join(
         ', '
-      )}, amount=${amount}, recipient=${recipient}`,
+      )}, amount=${amount} (${amountUnit}), recipient=${recipient}`,
     });
 
+    if (!symbol && !routeId) {
+      throw new Error('Either symbol or routeId is required');
+    }
+
     // Fetch warp route config from registry
-    const warpRoutes = await registry.getWarpRoutesBySymbolAndChains(
-      symbol,
-      chains
-    );
+    let warpRoutes: Record<string, WarpCoreConfig>;
+    if (routeId) {
+      const warpRoute = await registry.getWarpRoute(routeId);
+      warpRoutes = warpRoute ? { [routeId]: warpRoute } : {};
+    } else {
+      warpRoutes = await registry.findWarpRoutesBySymbolAndChains(
+        symbol,
+        chains
+      );
+    }
+
+    // Only routes that can send every hop with the requested tokens remain
+    const candidates = Object.entries(warpRoutes)
+      .map(
+        ([id, warpCoreConfig]) =>
+          [
+            id,
+            warpCoreConfig,
+            getHopTokenCandidates({ warpCoreConfig, chains, tokenAddresses }),
+          ] as const
+      )
+      .filter(([, , hopTokens]) => hopTokens.every((t) => t.length > 0));
 
-    if (!warpRoutes || warpRoutes.length === 0) {
+    if (candidates.length === 0) {
       return {
         content: [
           {
             type: 'text',
-            text: `No warp route config found for symbol "${symbol}" and chains [${chains.join(
-              ', '
-            )}]. Please deploy a warp route first using the 'deploy-warp-route' tool.`,
+            text: `No warp route config found for ${
+              routeId ? `route "${routeId}"` : `symbol "${symbol}"`
+            } and chains [${chains.join(', ')}]${
+              tokenAddresses ? ' with the given token addresses' : ''
+            }. Please deploy a warp route first using the 'deploy-warp-route' tool.`,
+          },
+        ],
+      };
+    }
+
+    if (candidates.length > 1) {
+      return {
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ambiguous: true,
+                message:
+                  'Several warp routes match, pass the routeId of one of the candidates',
+                candidates: candidates.map(([id, warpCoreConfig]) =>
+                  summarizeWarpRoute(id, warpCoreConfig)
+                ),
+              },
+              null,
+              2
+            ),
           },
         ],
       };
     }
 
-    const warpCoreConfig = warpRoutes[0]; // Use the first matching config
+    const [selectedRouteId, warpCoreConfig, hopTokens] = candidates[0];
+    const ambiguousHop = hopTokens.findIndex((tokens) => tokens.length > 1);
+    if (ambiguousHop !== -1) {
+      return {
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ambiguous: true,
+                message: `Warp route ${selectedRouteId} has several tokens on ${
+                  chains[ambiguousHop]
+                } that can be sent to ${
+                  chains[ambiguousHop + 1]
+                }, pass the router address of one of the candidates in tokenAddresses`,
+                routeId: selectedRouteId,
+                candidates: hopTokens[ambiguousHop].map(
+                  summarizeWarpRouteToken
+                ),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
 
     server.server.sendLoggingMessage({
       level: 'info',
@@ -342,6 +858,23 @@ Parameters: symbol=${symbol}, chains=${chains.join(
       )}`,
     });
 
+    const warpDeployConfig = await registry.getWarpDeployConfig(
+      selectedRouteId
+    );
+    const hopAmounts = getHopAmounts({
+      warpCoreConfig,
+      chains,
+      hopTokens: hopTokens.map(([token]) => token),
+      amount,
+      amountUnit,
+      scales: Object.fromEntries(
+        Object.entries(warpDeployConfig ?? {}).map(([chain, config]) => [
+          chain,
+          config.scale,
+        ])
+      ),
+    });
+
     const chainMetadata: ChainMap<ChainMetadata> = Object.fromEntries(
       await Promise.all(
         chains.map(async (chain) => [
@@ -375,22 +908,38 @@ Parameters: symbol=${symbol}, chains=${chains.join(
 
     server.server.sendLoggingMessage({
       level: 'info',
-      data: 'Initiating asset transfer...',
+      data: `${dryRun ? 'Quoting' : 'Initiating'} asset transfer...`,
     });
 
-    const deliveryResult = await assetTransfer({
+    const [hops, failure] = await assetTransfer({
       warpCoreConfig,
       chains,
-      amount,
+      amounts: hopAmounts.map((hopAmount) => hopAmount.amount),
       recipient,
       multiProvider,
+      registry,
+      selfRelay,
+      routers: Object.fromEntries(
+        hopTokens.map(([token], i) => [chains[i], token.addressOrDenom!])
+      ),
+      dryRun,
+      hopTimeoutSeconds,
     });
-    if (!deliveryResult || deliveryResult.length !== chains.length - 1) {
+    const results = hops.map((hop, i) => ({ ...hopAmounts[i], ...hop }));
+
+    if (failure) {
+      server.server.sendLoggingMessage({
+        level: 'error',
+        data: failure.message,
+      });
+
       return {
+        isError: true,
         content: [
           {
+            mimeType: 'application/json',
             type: 'text',
-            text: `Error in asset transfer. No delivery result couldn't be generated`,
+            text: JSON.stringify({ ...failure, hops: results }, null, 2),
           },
         ],
       };
@@ -398,7 +947,9 @@ Parameters: symbol=${symbol}, chains=${chains.join(
 
     server.server.sendLoggingMessage({
       level: 'info',
-      data: 'Message transfer completed successfully',
+      data: dryRun
+        ? 'Asset transfer quoted, nothing was sent'
+        : 'Message transfer completed successfully',
     });
 
     return {
@@ -407,10 +958,7 @@ Parameters: symbol=${symbol}, chains=${chains.join(
           mimeType: 'application/json',
           type: 'text',
           text: JSON.stringify(
-            deliveryResult.map(([dispatchTx, message]) => ({
-              transactionHash: dispatchTx.transactionHash,
-              messageId: message.id,
-            })),
+            dryRun ? { dryRun, hops: results } : results,
             null,
             2
           ),
@@ -421,82 +969,153 @@ Parameters: symbol=${symbol}, chains=${chains.join(
 );
 
 server.tool(
-  'deploy-warp-route',
-  'Deploys a warp route.',
+  'cross-chain-nft-transfer',
+  'Transfers an NFT (ERC721 token) between blockchain networks over a Hyperlane NFT warp route.\n\n' +
+    'FUNCTIONALITY:\n' +
+    '• Sends one token ID from the origin chain to a recipient on the destination chain\n' +
+    '• On collateral chains, approves the router for the token ID (or the whole collection with approveAll) when it is not approved yet\n' +
+    '• On synthetic chains, the wrapped token is burned and needs no approval\n\n' +
+    'PREREQUISITES:\n' +
+    '• An NFT warp route (collateralUri or syntheticUri routers) deployed with the `deploy-warp-route` tool\n' +
+    '• The sender owns the token ID on the origin chain\n' +
+    '• Sufficient gas tokens on the origin chain for the interchain gas payment and transaction fees\n\n' +
+    'OUTPUT:\n' +
+    '• Returns the approval and transfer transaction hashes and the dispatched message ID\n' +
+    '• Returns a structured error without sending anything when the token does not exist (TOKEN_NOT_FOUND), the sender does not own it (NOT_TOKEN_OWNER) or cannot pay the interchain gas (INSUFFICIENT_INTERCHAIN_GAS)',
   {
-    warpChains: z
-      .array(z.string())
-      .describe('Warp chains to deploy the route on'),
-    tokenTypes: z
-      .array(
-        z.enum(
-          TYPE_CHOICES.map((choice) => choice.name) as [string, ...string[]]
-        )
-      )
-      .describe('Token types to deploy'),
-  },
-  async ({ warpChains, tokenTypes }) => {
-    server.server.sendLoggingMessage({
-      level: 'info',
-      data: `Deploying warp route with chains: ${warpChains.join(
-        ', '
-      )} and token types: ${tokenTypes.join(', ')}.`,
-    });
-
-    const fileName = `routes/${
-      warpChains.map((chain, i) => `${chain}:${tokenTypes[i]}`).join('-') +
-      '.yaml'
-    }`;
-
-    let warpRouteConfig: WarpRouteDeployConfig;
-    const filePath = path.join(mcpDir, fileName);
-
-    if (fs.existsSync(filePath)) {
-      server.server.sendLoggingMessage({
-        level: 'info',
-        data: `Warp Route Already exists @ ${fileName} already exists. Skipping Config Creation.`,
-      });
+    routeId: z
+      .string()
+      .describe(
+        'ID of the NFT warp route, as returned by deploy-warp-route or list-warp-routes'
+      ),
+    origin: z.string().describe('Chain to send the NFT from'),
+    destination: z.string().describe('Chain to send the NFT to'),
+    tokenId: z
+      .string()
+      .regex(/^\d+$/, 'Token ID must be an integer')
+      .describe('ID of the token to transfer'),
+    recipient: z
+      .string()
+      .length(42)
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address')
+      .optional()
+      .default(signer.address)
+      .describe('Recipient address'),
+    selfRelay: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Deliver the transfer directly on the destination chain using local validator checkpoints instead of waiting for a relayer'
+      ),
+    approveAll: z
+      .boolean()
+      .default(false)
+      .describe(
+        'On collateral chains, approve the router for every token of the collection (setApprovalForAll) instead of the token ID only'
+      ),
+  },
+  async ({
+    routeId,
+    origin,
+    destination,
+    tokenId,
+    recipient,
+    selfRelay,
+    approveAll,
+  }) => {
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Starting cross-chain NFT transfer of token ${tokenId} from ${origin} to ${destination} over warp route ${routeId}, recipient=${recipient}`,
+    });
 
-      const fileContent = fs.readFileSync(filePath, 'utf-8');
-      warpRouteConfig = yaml.parse(fileContent) as WarpRouteDeployConfig;
+    const warpCoreConfig = await registry.getWarpRoute(routeId);
+    const warpRouteDeployConfig = await registry.getWarpDeployConfig(routeId);
+    if (!warpCoreConfig || !warpRouteDeployConfig) {
+      throw new Error(`No warp route found with ID ${routeId}`);
+    }
+
+    const [transfer, failure] = await nftTransfer({
+      warpCoreConfig,
+      warpRouteDeployConfig,
+      origin,
+      destination,
+      tokenId,
+      recipient,
+      multiProvider: await getChainMultiProvider(origin, destination),
+      registry,
+      selfRelay,
+      approveAll,
+    });
+
+    if (failure) {
+      server.server.sendLoggingMessage({
+        level: 'error',
+        data: failure.message,
+      });
 
       return {
+        isError: true,
         content: [
           {
+            mimeType: 'application/json',
             type: 'text',
-            text: `Warp Route Config already exists @ ${fileName}. Skipping Config Creation. Config: ${JSON.stringify(
-              warpRouteConfig,
-              null,
-              2
-            )}`,
+            text: JSON.stringify({ ...failure, transfer }, null, 2),
           },
         ],
       };
-    } else {
-      server.server.sendLoggingMessage({
-        level: 'info',
-        data: `Creating Warp Route Config @ ${fileName}`,
-      });
+    }
 
-      warpRouteConfig = await createWarpRouteDeployConfig({
-        warpChains,
-        tokenTypes: tokenTypes.map(
-          (t) => TokenType[t as keyof typeof TokenType]
-        ),
-        signerAddress: signer.address,
-        registry,
-        outPath: './warpRouteDeployConfig.yaml',
-      });
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `NFT transfer dispatched in message ${transfer.messageId}`,
+    });
 
-      server.server.sendLoggingMessage({
-        level: 'info',
-        data: `Warp route deployment config created: ${JSON.stringify(
-          warpRouteConfig,
-          null,
-          2
-        )}`,
-      });
-    }
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(transfer, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'deploy-warp-route',
+  'Deploys a warp route.',
+  {
+    warpChains: z
+      .array(z.string())
+      .describe('Warp chains to deploy the route on'),
+    tokenTypes: z
+      .array(
+        z.enum(
+          TYPE_CHOICES.map((choice) => choice.name) as [string, ...string[]]
+        )
+      )
+      .describe('Token types to deploy'),
+    tokens: z
+      .record(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address'))
+      .optional()
+      .describe(
+        'Existing token address per chain for collateral token types: the ERC20, ERC4626 vault, xERC20 or xERC20 lockbox the route wraps'
+      ),
+    chainOptions: z
+      .record(WarpChainOptionsSchema)
+      .optional()
+      .describe(
+        'Per-chain router options keyed by chain name: ISM, hook, owner, proxy admin, token metadata, scale and initial supply'
+      ),
+  },
+  async ({ warpChains, tokenTypes, tokens, chainOptions }) => {
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Deploying warp route with chains: ${warpChains.join(
+        ', '
+      )} and token types: ${tokenTypes.join(', ')}.`,
+    });
 
     const chainMetadata: ChainMap<ChainMetadata> = {};
     for (const chain of warpChains) {
@@ -507,12 +1126,64 @@ server.tool(
       signers: Object.fromEntries(warpChains.map((chain) => [chain, signer])),
     });
 
-    const deploymentConfig = await deployWarpRoute({
+    const warpRouteConfig = await createWarpRouteDeployConfig({
+      warpChains,
+      tokenTypes: tokenTypes.map((t) => TokenType[t as keyof typeof TokenType]),
+      tokens,
+      chainOptions,
+      signerAddress: signer.address,
+      registry,
+      multiProvider,
+      outPath: './warpRouteDeployConfig.yaml',
+    });
+
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Warp route deployment config created: ${JSON.stringify(
+        warpRouteConfig,
+        null,
+        2
+      )}`,
+    });
+
+    // Router options aren't compared, so the stored config is returned next
+    // to the requested one instead of dropping the caller's options
+    const existingRouteId = registry.findLocalWarpRouteId(warpRouteConfig);
+    if (existingRouteId) {
+      server.server.sendLoggingMessage({
+        level: 'warning',
+        data: `Warp route ${existingRouteId} already exists for these chains and tokens`,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'ALREADY_EXISTS',
+                message: `Warp route ${existingRouteId} already exists for these chains and tokens. Use it as is, or change its ISM, hook, owner or proxy admin with apply-warp-route`,
+                routeId: existingRouteId,
+                storedConfig: await registry.getWarpDeployConfig(
+                  existingRouteId
+                ),
+                requestedConfig: warpRouteConfig,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const [routeId, deploymentConfig] = await deployWarpRoute({
       registry,
       chainMetadata,
       multiProvider,
       warpRouteDeployConfig: warpRouteConfig,
-      filePath,
     });
 
     server.server.sendLoggingMessage({
@@ -528,7 +1199,7 @@ server.tool(
       content: [
         {
           type: 'text',
-          text: `Warp route deployment config created successfully. Config: ${JSON.stringify(
+          text: `Warp route ${routeId} deployed successfully. Config: ${JSON.stringify(
             deploymentConfig,
             null,
             2
@@ -539,35 +1210,347 @@ server.tool(
   }
 );
 
+async function getWarpRouteMultiProvider(
+  routeId: string
+): Promise<MultiProvider> {
+  const warpCoreConfig = await registry.getWarpRoute(routeId);
+  if (!warpCoreConfig) {
+    throw new Error(`No warp route found with ID ${routeId}`);
+  }
+  return getChainMultiProvider(
+    ...warpCoreConfig.tokens.map((token) => token.chainName)
+  );
+}
+
+const warpRouteIdParam = z
+  .string()
+  .describe(
+    'ID of the warp route in the local registry, as returned by deploy-warp-route'
+  );
+
+const warpRouteConfigParam = z
+  .record(z.unknown())
+  .optional()
+  .describe(
+    'Desired WarpRouteDeployConfig keyed by chain name (defaults to the stored deploy config of the route). The output of read-warp-route can be edited and passed back'
+  );
+
 server.tool(
-  'deploy-chain',
-  'Deploys a new chain to the Hyperlane network.',
+  'read-warp-route',
+  'Reads the live config (token type and metadata, owner, ISM, hook, proxy admin, remote routers and destination gas) of every router of a deployed warp route.',
+  {
+    routeId: warpRouteIdParam,
+  },
+  async ({ routeId }) => {
+    const multiProvider = await getWarpRouteMultiProvider(routeId);
+    const warpRouteConfig = await readWarpRoute({
+      routeId,
+      registry,
+      multiProvider,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(warpRouteConfig, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'check-warp-route',
+  'Compares the routers of a deployed warp route against its stored deploy config, or a desired one, and lists the differences.',
+  {
+    routeId: warpRouteIdParam,
+    config: warpRouteConfigParam,
+  },
+  async ({ routeId, config }) => {
+    const multiProvider = await getWarpRouteMultiProvider(routeId);
+    const [matches, differences] = await checkWarpRoute({
+      routeId,
+      registry,
+      multiProvider,
+      expectedConfig: config,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify({ routeId, matches, differences }, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'apply-warp-route',
+  'Updates the routers of a deployed warp route to match its stored deploy config, or a desired one: ISM, hook, owner, proxy admin, remote routers and destination gas. A desired config is stored once applied. Returns the transactions it sent per chain, or would send in dry-run mode.',
   {
-    chainName: z.string().describe('Name of the chain to deploy'),
-    chainId: z.number().describe('Chain ID of the chain to deploy'),
-    rpcUrl: z.string().url().describe('RPC URL for the chain'),
-    tokenSymbol: z.string().describe('Native token symbol'),
-    tokenName: z.string().describe('Native token name'),
-    isTestnet: z
+    routeId: warpRouteIdParam,
+    config: warpRouteConfigParam,
+    dryRun: z
       .boolean()
       .default(false)
-      .describe('Whether this is a testnet chain'),
+      .describe(
+        'Only list the transactions without deploying or sending anything. ISMs and hooks that would be deployed or updated are listed by annotation only'
+      ),
+  },
+  async ({ routeId, config, dryRun }) => {
+    const multiProvider = await getWarpRouteMultiProvider(routeId);
+
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `${
+        dryRun ? 'Planning' : 'Applying'
+      } update of warp route ${routeId}...`,
+    });
+
+    const [transactions, differences] = await applyWarpRoute({
+      routeId,
+      registry,
+      multiProvider,
+      expectedConfig: config,
+      dryRun,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(
+            { routeId, dryRun, differences, transactions },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'extend-warp-route',
+  'Extends a deployed warp route to new chains. Deploys routers only on the new chains, enrolls them with every existing router in both directions and rewrites the route in the registry under the same ID. Existing routers only enroll the new ones and set their destination gas, use apply-warp-route to change anything else.',
+  {
+    routeId: warpRouteIdParam,
+    warpChains: z
+      .array(z.string())
+      .min(1)
+      .describe('New chains to add to the route'),
+    tokenTypes: z
+      .array(
+        z.enum(
+          TYPE_CHOICES.map((choice) => choice.name) as [string, ...string[]]
+        )
+      )
+      .describe('Token types to deploy on the new chains'),
+    tokens: z
+      .record(z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address'))
+      .optional()
+      .describe(
+        'Existing token address per new chain for collateral token types'
+      ),
+    chainOptions: z
+      .record(WarpChainOptionsSchema)
+      .optional()
+      .describe(
+        'Per-chain router options of the new chains keyed by chain name, like for deploy-warp-route'
+      ),
   },
-  async ({ chainName, chainId, rpcUrl, tokenSymbol, tokenName, isTestnet }) => {
-    const existingConfig = await loadChainDeployConfig(chainName);
+  async ({ routeId, warpChains, tokenTypes, tokens, chainOptions }) => {
+    const warpCoreConfig = await registry.getWarpRoute(routeId);
+    if (!warpCoreConfig) {
+      throw new Error(`No warp route found with ID ${routeId}`);
+    }
+    const multiProvider = await getChainMultiProvider(
+      ...warpCoreConfig.tokens.map((token) => token.chainName),
+      ...warpChains
+    );
 
-    if (existingConfig) {
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Extending warp route ${routeId} to chains: ${warpChains.join(
+        ', '
+      )} with token types: ${tokenTypes.join(', ')}.`,
+    });
+
+    // Routes deployed before deploy configs were stored are read from chain
+    const existingConfig =
+      (await registry.getWarpDeployConfig(routeId)) ??
+      (await readWarpRoute({ routeId, registry, multiProvider }));
+
+    const warpRouteConfig = await createWarpRouteDeployConfig({
+      warpChains,
+      tokenTypes: tokenTypes.map((t) => TokenType[t as keyof typeof TokenType]),
+      tokens,
+      chainOptions,
+      existingConfig,
+      signerAddress: signer.address,
+      registry,
+      multiProvider,
+      outPath: './warpRouteDeployConfig.yaml',
+    });
+
+    const extendedConfig = await extendWarpRoute({
+      registry,
+      multiProvider,
+      warpRouteDeployConfig: warpRouteConfig,
+      routeId,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Warp route ${routeId} extended successfully. Config: ${JSON.stringify(
+            extendedConfig,
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
+  }
+);
+
+async function writeChainAgentConfig(
+  chainConfigs: ChainConfig[]
+): Promise<string[]> {
+  const metadata = Object.fromEntries(
+    chainConfigs.map(({ chainName, chainId, rpcUrl, isTestnet }) => [
+      chainName,
+      {
+        name: chainName,
+        displayName: chainName,
+        chainId,
+        domainId: Number(chainId),
+        protocol: ProtocolType.Ethereum,
+        rpcUrls: [{ http: rpcUrl }],
+        isTestnet,
+      },
+    ])
+  ) as ChainMap<ChainMetadata>;
+
+  server.server.sendLoggingMessage({
+    level: 'info',
+    data: `Create metadata for ${Object.keys(metadata).join(
+      ', '
+    )}: ${JSON.stringify(metadata, null, 2)}`,
+  });
+
+  const multiProvider = new MultiProvider(metadata, {
+    signers: {
+      [signer.address]: signer,
+    },
+  });
+
+  const outPath = path.join(mcpDir, 'agents');
+  return createAgentConfigs(
+    registry,
+    multiProvider,
+    outPath,
+    Object.keys(metadata)
+  );
+}
+
+const chainDeployParams = {
+  chainName: z.string().describe('Name of the chain to deploy'),
+  chainId: z.number().describe('Chain ID of the chain to deploy'),
+  rpcUrl: z.string().url().describe('RPC URL for the chain'),
+  tokenSymbol: z.string().describe('Native token symbol'),
+  tokenName: z.string().describe('Native token name'),
+  isTestnet: z
+    .boolean()
+    .default(false)
+    .describe('Whether this is a testnet chain'),
+  defaultIsm: IsmOptionsSchema.optional().describe(
+    'Default ISM of the mailbox. Defaults to a merkle root multisig ISM with the deployer as the only validator and a threshold of 1'
+  ),
+  defaultHook: HookOptionsSchema.optional().describe(
+    'Default hook of the mailbox, e.g. an interchainGasPaymaster to charge for gas payments. Defaults to a merkle tree hook'
+  ),
+  requiredHook: HookOptionsSchema.optional().describe(
+    'Required hook of the mailbox, run on every dispatch. Defaults to a merkle tree hook. Keep a merkleTree hook in either the default or required hook so validators can sign checkpoints'
+  ),
+};
+
+server.tool(
+  'plan-chain-deploy',
+  'Dry run of `deploy-chain`: resolves the core config, lists the contracts to deploy and estimates the gas and native token cost from the current gas price, without sending any transaction. Reports the signer balance and a go/no-go.',
+  chainDeployParams,
+  async ({
+    chainName,
+    chainId,
+    rpcUrl,
+    tokenSymbol,
+    tokenName,
+    isTestnet,
+    defaultIsm,
+    defaultHook,
+    requiredHook,
+  }) => {
+    const plan = await planCoreDeploy({
+      config: { chainName, chainId, rpcUrl, tokenSymbol, tokenName, isTestnet },
+      registry,
+      ism: defaultIsm,
+      defaultHook,
+      requiredHook,
+    });
+
+    server.server.sendLoggingMessage({
+      level: plan.go ? 'info' : 'warning',
+      data: `Deployment plan for ${chainName}: ${plan.go ? 'go' : 'no-go'}`,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(plan, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'deploy-chain',
+  'Deploys a new chain to the Hyperlane network.',
+  chainDeployParams,
+  async ({
+    chainName,
+    chainId,
+    rpcUrl,
+    tokenSymbol,
+    tokenName,
+    isTestnet,
+    defaultIsm,
+    defaultHook,
+    requiredHook,
+  }) => {
+    const existingDeploy = loadCoreDeployState(chainName);
+
+    if (existingDeploy?.status === 'completed') {
       server.server.sendLoggingMessage({
         level: 'info',
-        data: `Chain deployment config already exists for ${chainName}. Using existing config.`,
+        data: `Core contracts are already deployed for ${chainName}. Skipping deployment.`,
       });
 
       return {
         content: [
           {
             type: 'text',
-            text: `Chain config already exists. Skipping config creation.\n${JSON.stringify(
-              existingConfig,
+            text: `Core contracts are already deployed for ${chainName}. Skipping deployment.\n${JSON.stringify(
+              existingDeploy.addresses,
               null,
               2
             )}`,
@@ -576,12 +1559,35 @@ server.tool(
       };
     }
 
-    server.server.sendLoggingMessage({
-      level: 'info',
-      data: `Deploying chain ${chainName} with ID ${chainId}...`,
-    });
+    if (existingDeploy) {
+      server.server.sendLoggingMessage({
+        level: 'warning',
+        data: `An unfinished core deployment exists for ${chainName}`,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'UNFINISHED_DEPLOYMENT',
+                message: `An unfinished core deployment exists for ${chainName}. Use the resume-chain-deploy tool to continue it`,
+                chain: chainName,
+                status: existingDeploy.status,
+                deployedContracts: existingDeploy.contracts,
+                lastError: existingDeploy.error,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
 
-    // Step 1: Create Chain Config + Save
     const chainConfig = {
       chainName,
       chainId,
@@ -590,6 +1596,62 @@ server.tool(
       tokenName,
       isTestnet,
     };
+    const deployConfig = {
+      config: chainConfig,
+      registry,
+      ism: defaultIsm,
+      defaultHook,
+      requiredHook,
+    };
+
+    // Step 0: Refuse to deploy when the chain already has a mailbox or the
+    // signer cannot pay for the deployment
+    const plan = await planCoreDeploy(deployConfig);
+    if (!plan.go) {
+      server.server.sendLoggingMessage({
+        level: 'error',
+        data: `Refusing to deploy ${chainName}: ${plan.issues.join('; ')}`,
+      });
+
+      return {
+        isError: true,
+        content: [
+          {
+            mimeType: 'application/json',
+            type: 'text',
+            text: JSON.stringify(
+              {
+                ...(plan.existingMailbox
+                  ? {
+                      error: 'ALREADY_DEPLOYED',
+                      message: `Core contracts are already deployed for ${chainName}, mailbox ${plan.existingMailbox}`,
+                      existingMailbox: plan.existingMailbox,
+                    }
+                  : {
+                      error: 'INSUFFICIENT_BALANCE',
+                      message: `Insufficient balance to deploy core contracts to ${chainName}`,
+                    }),
+                chain: chainName,
+                signer: plan.signer,
+                balance: plan.balance,
+                estimatedCost: plan.estimatedCost,
+                nativeTokenSymbol: plan.nativeTokenSymbol,
+                issues: plan.issues,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Deploying chain ${chainName} with ID ${chainId}...`,
+    });
+
+    // Step 1: Create Chain Config + Save
     await createChainConfig({
       config: chainConfig,
       registry,
@@ -605,7 +1667,6 @@ server.tool(
     });
 
     // Step 2: Deploy Core Contracts
-    const deployConfig = { config: chainConfig, registry };
 
     // server.server.sendLoggingMessage({
     //   level: 'info',
@@ -624,50 +1685,293 @@ server.tool(
     });
 
     // Step 3: Create Agent Configs
-    const metadata = {
-      [chainName]: {
-        name: chainName,
-        displayName: chainName,
-        chainId,
-        domainId: chainId,
-        protocol: ProtocolType.Ethereum,
-        rpcUrls: [{ http: rpcUrl }],
-        isTestnet,
-      },
-    } as ChainMap<ChainMetadata>;
+    await writeChainAgentConfig([chainConfig]);
 
     server.server.sendLoggingMessage({
       level: 'info',
-      data: `Create metadata for ${chainName}: ${JSON.stringify(
-        metadata,
+      data: `✅ Chain deployment and agent config creation complete for ${chainName}`,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Successfully deployed ${chainName} and generated agent config.\n\nSaved config: ${JSON.stringify(
+            chainConfig,
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'deploy-chains',
+  'Deploys Hyperlane core contracts to several new chains at once and wires them together: every chain gets a routing ISM with a merkle root multisig ISM per remote, and an interchain gas paymaster priced with the current gas price of each remote. Chains that are already deployed, or already have a mailbox in the registry, are reported as existing. Emits one agent config covering all chains.',
+  {
+    chains: z
+      .array(
+        z.object({
+          chainName: z.string().describe('Name of the chain to deploy'),
+          chainId: z.number().describe('Chain ID of the chain to deploy'),
+          rpcUrl: z.string().url().describe('RPC URL for the chain'),
+          tokenSymbol: z.string().describe('Native token symbol'),
+          tokenName: z.string().describe('Native token name'),
+          isTestnet: z
+            .boolean()
+            .default(false)
+            .describe('Whether this is a testnet chain'),
+        })
+      )
+      .min(2)
+      .describe('Chains to deploy and connect to each other'),
+    validators: z
+      .array(z.string().regex(/^0x[a-fA-F0-9]{40}$/))
+      .optional()
+      .describe(
+        'Validators of the multisig ISM for every remote. Defaults to the deployer address'
+      ),
+    threshold: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe('Multisig threshold. Defaults to 1'),
+  },
+  async ({ chains, validators, threshold }) => {
+    const chainNames = chains.map(({ chainName }) => chainName);
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Deploying chains ${chainNames.join(', ')}...`,
+    });
+
+    const results = await runMultiChainCoreDeploy({
+      configs: chains,
+      registry,
+      validators,
+      threshold,
+    });
+
+    const deployedChains = chains.filter(({ chainName }) =>
+      results.some(
+        (result) => result.chain === chainName && result.status !== 'failed'
+      )
+    );
+    const agentConfigPaths =
+      deployedChains.length > 0
+        ? await writeChainAgentConfig(deployedChains)
+        : [];
+
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Multi-chain deployment finished: ${JSON.stringify(
+        results.map(({ chain, status }) => ({ chain, status }))
+      )}`,
+    });
+
+    const table = [
+      '| Chain | Status | Mailbox | Interchain gas paymaster | Error |',
+      '| --- | --- | --- | --- | --- |',
+      ...results.map(
+        ({ chain, status, addresses, error }) =>
+          `| ${chain} | ${status} | ${addresses?.mailbox ?? ''} | ${
+            addresses?.interchainGasPaymaster ?? ''
+          } | ${error ?? ''} |`
+      ),
+    ].join('\n');
+
+    return {
+      isError: deployedChains.length === 0,
+      content: [
+        {
+          type: 'text',
+          text: `${table}\n\nAgent config: ${
+            agentConfigPaths.join(', ') || 'not generated'
+          }\n\nDeployed addresses: ${JSON.stringify(
+            Object.fromEntries(
+              results.map(({ chain, addresses }) => [chain, addresses])
+            ),
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'resume-chain-deploy',
+  'Resumes an unfinished core deployment started by `deploy-chain`, reusing the proxies, factories, ISMs and hooks that were already deployed, then generates the agent config.',
+  {
+    chainName: z
+      .string()
+      .describe('Name of the chain whose deployment to resume'),
+  },
+  async ({ chainName }) => {
+    const existingDeploy = loadCoreDeployState(chainName);
+    if (!existingDeploy) {
+      throw new Error(
+        `No core deployment found for ${chainName}. Use the deploy-chain tool to start one`
+      );
+    }
+
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Resuming core deployment of ${chainName} (status: ${existingDeploy.status})...`,
+    });
+
+    const deployedAddress = await resumeCoreDeploy(chainName, registry);
+
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Core contracts deployed successfully for ${chainName}. Deployed address: ${JSON.stringify(
+        deployedAddress,
         null,
         2
       )}`,
     });
 
-    const multiProvider = new MultiProvider(metadata, {
-      signers: {
-        [signer.address]: signer,
-      },
+    await writeChainAgentConfig([existingDeploy.config]);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Successfully resumed the deployment of ${chainName} and generated agent config.\n\nDeployed addresses: ${JSON.stringify(
+            deployedAddress,
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
+  }
+);
+
+async function getChainMultiProvider(
+  ...chains: string[]
+): Promise<MultiProvider> {
+  // Routing ISMs and hooks are read per remote domain, so every known chain
+  // has to be resolvable
+  const chainMetadata = await registry.getMetadata();
+  for (const chain of chains) {
+    if (!chainMetadata[chain]) {
+      throw new Error(`No chain metadata found for ${chain}`);
+    }
+  }
+  return new MultiProvider(chainMetadata, {
+    signers: Object.fromEntries(chains.map((chain) => [chain, signer])),
+  });
+}
+
+const coreConfigParam = z
+  .record(z.unknown())
+  .describe(
+    'Desired CoreConfig (owner, defaultIsm, defaultHook, requiredHook, proxyAdmin, ...). The output of read-core-config can be edited and passed back'
+  );
+
+server.tool(
+  'read-core-config',
+  'Reads the core config (owner, default ISM, default and required hooks, proxy admin, interchain accounts router) of the mailbox deployed on a chain.',
+  {
+    chainName: z.string().describe('Name of the deployed chain'),
+  },
+  async ({ chainName }) => {
+    const multiProvider = await getChainMultiProvider(chainName);
+    const coreConfig = await readCoreConfig({
+      chain: chainName,
+      registry,
+      multiProvider,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(coreConfig, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'check-core-config',
+  'Compares the core config deployed on a chain against a desired CoreConfig and lists the differences.',
+  {
+    chainName: z.string().describe('Name of the deployed chain'),
+    config: coreConfigParam,
+  },
+  async ({ chainName, config }) => {
+    const multiProvider = await getChainMultiProvider(chainName);
+    const [matches, differences] = await checkCoreConfig({
+      chain: chainName,
+      registry,
+      multiProvider,
+      expectedConfig: config,
     });
 
-    const outPath = path.join(mcpDir, 'agents');
-    await createAgentConfigs(registry, multiProvider, outPath, chainName);
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(
+            { chain: chainName, matches, differences },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'apply-core-config',
+  'Updates the core contracts of a deployed chain to match a desired CoreConfig: default ISM, default and required hooks, mailbox owner and proxy admin owner. Returns the transactions it sent, or would send in dry-run mode.',
+  {
+    chainName: z.string().describe('Name of the deployed chain'),
+    config: coreConfigParam,
+    dryRun: z
+      .boolean()
+      .default(false)
+      .describe(
+        'Only list the transactions without deploying or sending anything. ISMs and hooks that would be deployed are listed without calldata'
+      ),
+  },
+  async ({ chainName, config, dryRun }) => {
+    const multiProvider = await getChainMultiProvider(chainName);
 
     server.server.sendLoggingMessage({
       level: 'info',
-      data: `✅ Chain deployment and agent config creation complete for ${chainName}`,
+      data: `${
+        dryRun ? 'Planning' : 'Applying'
+      } core config update for ${chainName}...`,
+    });
+
+    const [transactions, differences] = await applyCoreConfig({
+      chain: chainName,
+      registry,
+      multiProvider,
+      expectedConfig: config,
+      dryRun,
     });
 
     return {
       content: [
         {
+          mimeType: 'application/json',
           type: 'text',
-          text: `✅ Successfully deployed ${chainName} and generated agent config.\n\nSaved config: ${JSON.stringify(
-            chainConfig,
+          text: JSON.stringify(
+            { chain: chainName, dryRun, differences, transactions },
             null,
             2
-          )}`,
+          ),
         },
       ],
     };
@@ -676,11 +1980,47 @@ server.tool(
 
 server.tool(
   'run-validator',
-  'Runs a validator for a specific chain.',
+  'Runs a validator for a specific chain. Checkpoints are written to a local directory by default, or to an S3-compatible or GCS bucket so relayers on other machines can read them. Bucket credentials are read from the server environment (AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY, GOOGLE_APPLICATION_CREDENTIALS) and never passed as tool parameters. A local validator that still announces the legacy file:///validator-signatures location announces its current one again.',
   {
     chainName: z.string().describe('Name of the chain to validate'),
+    checkpointSyncer: z
+      .discriminatedUnion('type', [
+        z.object({ type: z.literal('localStorage') }),
+        z.object({
+          type: z.literal('s3'),
+          bucket: z.string().describe('S3 bucket name'),
+          region: z.string().describe('S3 bucket region, e.g. us-east-1'),
+          folder: z
+            .string()
+            .optional()
+            .describe('Folder in the bucket to write checkpoints to'),
+          endpoint: z
+            .string()
+            .url()
+            .optional()
+            .describe(
+              'S3-compatible endpoint to use instead of AWS, e.g. the one returned by run-local-s3'
+            ),
+        }),
+        z.object({
+          type: z.literal('gcs'),
+          bucket: z.string().describe('GCS bucket name'),
+          folder: z
+            .string()
+            .optional()
+            .describe('Folder in the bucket to write checkpoints to'),
+          serviceAccountKeyPath: z
+            .string()
+            .optional()
+            .describe(
+              'Path of a service account key file on this machine (defaults to GOOGLE_APPLICATION_CREDENTIALS)'
+            ),
+        }),
+      ])
+      .default({ type: 'localStorage' })
+      .describe('Where the validator stores its signed checkpoints'),
   },
-  async ({ chainName }) => {
+  async ({ chainName, checkpointSyncer }) => {
     server.server.sendLoggingMessage({
       level: 'info',
       data: `Starting validator for chain: ${chainName}...`,
@@ -705,15 +2045,50 @@ server.tool(
       const validatorRunner = new ValidatorRunner(
         chainName,
         validatorKey,
-        configFilePath
+        configFilePath,
+        checkpointSyncer
       );
       await validatorRunner.run();
 
+      // Validators restarted after checkpoints moved to one directory per
+      // chain may still announce the old shared directory
+      const notes: string[] = [];
+      if (checkpointSyncer.type === 'localStorage') {
+        try {
+          const [announcement, receipt] = await reannounceLegacyValidator({
+            chain: chainName,
+            validator: signer,
+            registry,
+            multiProvider: await getChainMultiProvider(chainName),
+          });
+          if (receipt) {
+            notes.push(
+              `Announced ${announcement.expectedStorageLocation} in place of file:///validator-signatures in ${receipt.transactionHash}`
+            );
+          }
+          notes.push(
+            ...announcement.issues
+              .filter(({ code }) => code === 'LOCATION_MISMATCH')
+              .map(({ code, message }) => `${code}: ${message}`)
+          );
+        } catch (error) {
+          notes.push(
+            `LOCATION_MISMATCH: Could not check or update the announcement of validator ${signer.address} on ${chainName}, relayers may read an old location. Check it with get-validator-announcement: ${error}`
+          );
+        }
+        for (const note of notes) {
+          server.server.sendLoggingMessage({ level: 'warning', data: note });
+        }
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `Validator started successfully for chain: ${chainName}`,
+            text: [
+              `Validator started successfully for chain: ${chainName}`,
+              ...notes,
+            ].join('\n'),
           },
         ],
       };
@@ -727,14 +2102,58 @@ server.tool(
   }
 );
 
+server.tool(
+  'run-local-s3',
+  'Starts a local S3-compatible server (MinIO) in Docker to test S3 checkpoint syncers without an AWS account. Uses AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY from the server environment as credentials, creates a publicly readable bucket and returns the endpoint to pass to run-validator and run-relayer.',
+  {
+    bucket: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/, 'Invalid bucket name')
+      .default('hyperlane-validator-signatures')
+      .describe('Bucket to create for validator checkpoints'),
+  },
+  async ({ bucket }) => {
+    const endpoint = await startLocalS3(bucket);
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(
+            { endpoint, bucket, region: 'us-east-1' },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
 server.tool(
   'run-relayer',
-  'Runs a relayer for specified chains.',
+  'Runs a relayer for specified chains. The relayer finds validator checkpoints through their announced storage locations: local validators of every chain in validatorChains are mounted, validators announcing S3 or GCS buckets are read directly.',
   {
     relayChains: z.array(z.string()).describe('Chains to relay between'),
-    validatorChainName: z.string().describe('Name of the validator chain'),
+    validatorChainName: z
+      .string()
+      .describe('Name of the validator chain whose agent config is used'),
+    validatorChains: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Chains whose local validator checkpoints the relayer reads (defaults to validatorChainName)'
+      ),
+    s3Endpoint: z
+      .string()
+      .url()
+      .optional()
+      .describe(
+        'S3-compatible endpoint validators write their checkpoints to, e.g. the one returned by run-local-s3'
+      ),
   },
-  async ({ relayChains, validatorChainName }) => {
+  async ({ relayChains, validatorChainName, validatorChains, s3Endpoint }) => {
     server.server.sendLoggingMessage({
       level: 'info',
       data: `Starting relayer for chains: ${relayChains.join(', ')}...`,
@@ -757,7 +2176,9 @@ server.tool(
         relayChains,
         relayerKey,
         configFilePath,
-        validatorChainName
+        validatorChainName,
+        validatorChains,
+        s3Endpoint
       );
       await relayerRunner.run();
 
@@ -783,6 +2204,326 @@ server.tool(
   }
 );
 
+const agentSelectorParams = {
+  containerId: z
+    .string()
+    .optional()
+    .describe(
+      'ID (or ID prefix) of the agent container, as listed by list-agents'
+    ),
+  role: z
+    .enum(AGENT_ROLES)
+    .optional()
+    .describe('Agent role, to select the container by role and chain'),
+  chain: z
+    .string()
+    .optional()
+    .describe(
+      'Chain the agent runs for, to select the container by role and chain'
+    ),
+};
+
+server.tool(
+  'list-agents',
+  'Lists the validator and relayer containers started by this server, including ones started before it restarted, with their role, chains, image tag, config hash and Docker state.',
+  {
+    role: z
+      .enum(AGENT_ROLES)
+      .optional()
+      .describe('Only list agents with this role'),
+    chain: z
+      .string()
+      .optional()
+      .describe('Only list agents running for this chain'),
+  },
+  async ({ role, chain }) => {
+    const agents = await listAgents({ role, chain });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(agents, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'stop-agent',
+  'Stops a running validator or relayer container. The container is kept and can be started again with restart-agent.',
+  agentSelectorParams,
+  async (selector) => {
+    const agent = await stopAgent(await findAgent(selector));
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Stopped ${agent.role} container ${agent.containerId}`,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(agent, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'restart-agent',
+  'Restarts a validator or relayer container, also one that was stopped, with the command and config it was created with.',
+  agentSelectorParams,
+  async (selector) => {
+    const agent = await restartAgent(await findAgent(selector));
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Restarted ${agent.role} container ${agent.containerId}`,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(agent, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'remove-agent',
+  'Removes a validator or relayer container. The agent database and validator checkpoints on the host are kept, so running the agent again resumes from them.',
+  {
+    ...agentSelectorParams,
+    force: z
+      .boolean()
+      .default(false)
+      .describe('Stop and remove the container even if it is running'),
+  },
+  async ({ force, ...selector }) => {
+    const agent = await findAgent(selector);
+    await removeAgent(agent, force);
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: `Removed ${agent.role} container ${agent.containerId}`,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Removed ${agent.role} container ${
+            agent.containerId
+          } for chains: ${agent.chains.join(', ')}`,
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'get-agent-logs',
+  'Returns the logs of a validator or relayer container, the last N lines or a time window, with a summary of the recurring warnings and errors: RPC_FAILURE, INSUFFICIENT_FUNDS, VALIDATOR_NOT_ANNOUNCED or OTHER. Use it to debug an agent that is stuck or not delivering messages.',
+  {
+    ...agentSelectorParams,
+    tail: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        'Number of lines to return from the end of the log, or of the lines matching level. Defaults to 200 when neither since nor until is given'
+      ),
+    since: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .describe('Only return lines logged after this ISO 8601 time'),
+    until: z
+      .string()
+      .datetime({ offset: true })
+      .optional()
+      .describe('Only return lines logged before this ISO 8601 time'),
+    level: z
+      .enum(AGENT_LOG_LEVELS)
+      .optional()
+      .describe(
+        'Only return lines at this level or more severe (e.g. WARN returns warnings and errors). Searches the last 50 log lines per line returned (at most 100000); truncated is set when older lines were not searched'
+      ),
+  },
+  async ({ tail, since, until, level, ...selector }) => {
+    const agent = await findAgent(selector);
+    const [lines, errors, truncated] = await getAgentLogs({
+      agent,
+      tail,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      level,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(
+            {
+              containerId: agent.containerId,
+              role: agent.role,
+              chains: agent.chains,
+              state: agent.state,
+              errors,
+              lines,
+              ...(truncated && {
+                truncated,
+                message: `Only the most recent log lines were searched for ${level} lines; pass since and until to search older logs`,
+              }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'agent-health',
+  'Checks the health of a validator or relayer from its Prometheus metrics: indexed block height versus the chain tip, latest checkpoint signed (validators), messages processed and pending in the submitter queues (relayers) and wallet balances. Flags agents that are NOT_RUNNING, METRICS_UNAVAILABLE, LAGGING, STALE, CHECKPOINT_LAGGING or have NO_WALLET_BALANCE.',
+  {
+    ...agentSelectorParams,
+    maxBlockLag: z
+      .number()
+      .int()
+      .nonnegative()
+      .default(50)
+      .describe(
+        'Number of blocks the indexed height may trail the chain tip before the agent is flagged as lagging'
+      ),
+    sampleSeconds: z
+      .number()
+      .nonnegative()
+      .max(120)
+      .default(0)
+      .describe(
+        'Scrape the metrics a second time after this many seconds to flag chains whose indexing is stale (0 to scrape once)'
+      ),
+  },
+  async ({ maxBlockLag, sampleSeconds, ...selector }) => {
+    const agent = await findAgent(selector);
+    const health = await getAgentHealth({
+      agent,
+      multiProvider: await getChainMultiProvider(...agent.chains),
+      maxBlockLag,
+      sampleSeconds,
+    });
+
+    if (!health.healthy) {
+      server.server.sendLoggingMessage({
+        level: 'warning',
+        data: `The ${agent.role} ${
+          agent.containerId
+        } is unhealthy: ${health.issues.map((issue) => issue.code).join(', ')}`,
+      });
+    }
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(health, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'get-validator-announcement',
+  'Reads the checkpoint storage locations a validator announced on the ValidatorAnnounce contract of a chain. Reports NOT_ANNOUNCED, LOCATION_MISMATCH when the latest location is not where the validator run by this server writes its checkpoints, NO_CHECKPOINTS when nothing was signed yet, and RELAYER_CANNOT_READ for running relayers that cannot read the announced location.',
+  {
+    chain: z.string().describe('Chain the validator signs checkpoints for'),
+    validator: z
+      .string()
+      .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address')
+      .optional()
+      .default(signer.address)
+      .describe(
+        'Validator address (defaults to the address of PRIVATE_KEY, which run-validator uses)'
+      ),
+  },
+  async ({ chain, validator }) => {
+    const announcement = await getValidatorAnnouncement({
+      chain,
+      validator,
+      registry,
+      multiProvider: await getChainMultiProvider(chain),
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(announcement, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+server.tool(
+  'announce-validator',
+  'Announces the checkpoint storage location of the validator run by run-validator (the PRIVATE_KEY address) on the ValidatorAnnounce contract of a chain, so relayers can find its signatures. Validators announce themselves only when their key holds gas on the chain. Local validators that announced file:///validator-signatures before checkpoints moved to one directory per chain are announced again by run-validator, or can be here. Nothing is sent when the location is already announced.',
+  {
+    chain: z.string().describe('Chain the validator signs checkpoints for'),
+    storageLocation: z
+      .string()
+      .optional()
+      .describe(
+        'Storage location to announce (defaults to the location of the validator run by run-validator for the chain, e.g. file:///validator-signatures/<chain> or s3://<bucket>/<region>)'
+      ),
+  },
+  async ({ chain, storageLocation }) => {
+    const [announcement, receipt] = await announceValidator({
+      chain,
+      validator: signer,
+      storageLocation,
+      registry,
+      multiProvider: await getChainMultiProvider(chain),
+    });
+    server.server.sendLoggingMessage({
+      level: 'info',
+      data: receipt
+        ? `Validator ${signer.address} announced on ${chain} in ${receipt.transactionHash}`
+        : `Validator ${signer.address} was already announced on ${chain}`,
+    });
+
+    return {
+      content: [
+        {
+          mimeType: 'application/json',
+          type: 'text',
+          text: JSON.stringify(
+            { transactionHash: receipt?.transactionHash, ...announcement },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -88,6 +88,17 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
       if (fs.existsSync(routesDir)) {
         const files = fs.readdirSync(routesDir);
         for (const file of files) {
+          // Deploy configs are stored next to their route as routeId.deploy.yaml
+          if (file.endsWith('.deploy.yaml')) {
+            const filePath = path.join(routesDir, file);
+            const content = fs.readFileSync(filePath, 'utf8');
+            const routeId = file.replace(/\.deploy\.yaml$/, '');
+            this.localWarpDeployConfigs[routeId] = parse(
+              content
+            ) as WarpRouteDeployConfig;
+            continue;
+          }
+
           if (file.endsWith('.yaml') || file.endsWith('.yml')) {
             const filePath = path.join(routesDir, file);
             const content = fs.readFileSync(filePath, 'utf8');
@@ -96,6 +107,7 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
             this.localWarpRoutes[routeId] = config;
           }
         }
+        this.migrateLegacyWarpRoutes(routesDir);
       } else {
         fs.mkdirSync(routesDir, { recursive: true });
       }
@@ -201,13 +213,61 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
     }
   }
 
+  /**
+   * Older versions named route files after their chains and token types
+   * (`chain:type-chain:type.yaml`), so the deploy config couldn't be found by
+   * route ID. Those routes are moved to their generated route ID.
+   */
+  private migrateLegacyWarpRoutes(routesDir: string): void {
+    for (const [legacyId, config] of Object.entries(this.localWarpRoutes)) {
+      if (!legacyId.includes(':')) continue;
+
+      const routeId = this.generateRouteId(config);
+      if (this.localWarpRoutes[routeId]) {
+        this.logger.warn(
+          `Not migrating warp route ${legacyId}, ${routeId} already exists`
+        );
+        continue;
+      }
+
+      fs.writeFileSync(
+        path.join(routesDir, `${routeId}.yaml`),
+        stringify(config, null, 2)
+      );
+      this.localWarpRoutes[routeId] = config;
+      delete this.localWarpRoutes[legacyId];
+
+      const deployConfig = this.localWarpDeployConfigs[legacyId];
+      if (deployConfig) {
+        fs.writeFileSync(
+          path.join(routesDir, `${routeId}.deploy.yaml`),
+          stringify(deployConfig, null, 2)
+        );
+        this.localWarpDeployConfigs[routeId] = deployConfig;
+        delete this.localWarpDeployConfigs[legacyId];
+      }
+
+      for (const file of [
+        `${legacyId}.yaml`,
+        `${legacyId}.yml`,
+        `${legacyId}.deploy.yaml`,
+      ]) {
+        fs.rmSync(path.join(routesDir, file), { force: true });
+      }
+
+      this.logger.info(`Migrated warp route ${legacyId} to ID: ${routeId}`);
+    }
+  }
+
   // Implement addWarpRoute to match the BaseRegistry's method signature
   async addWarpRoute(
     config: WarpCoreConfig,
-    options?: AddWarpRouteOptions
+    options?: AddWarpRouteOptions & { routeId?: string }
   ): Promise<void> {
-    // Generate a route ID based on symbol or with internal method
-    const routeId = this.generateRouteId(config, options?.symbol);
+    // Generate a route ID based on symbol or with internal method, unless an
+    // existing route is being rewritten
+    const routeId =
+      options?.routeId ?? this.generateRouteId(config, options?.symbol);
 
     // Store the config in memory
     this.localWarpRoutes[routeId] = config;
@@ -223,7 +283,54 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
     this.logger.info(`Warp route added with ID: ${routeId}`);
   }
 
-  private generateRouteId(config: WarpCoreConfig, symbol?: string): string {
+  /**
+   * Stores the deploy config of a route, used to check and update the
+   * deployed routers later on.
+   */
+  async addWarpRouteConfig(
+    config: WarpRouteDeployConfig,
+    routeId: string
+  ): Promise<void> {
+    this.localWarpDeployConfigs[routeId] = config;
+
+    const routesDir = path.join(this.localStoragePath, 'routes');
+    fs.mkdirSync(routesDir, { recursive: true });
+
+    const filePath = path.join(routesDir, `${routeId}.deploy.yaml`);
+    fs.writeFileSync(filePath, stringify(config, null, 2));
+
+    this.logger.info(`Warp route deploy config added with ID: ${routeId}`);
+  }
+
+  /**
+   * Finds a local route deployed for the same chains with the same token types
+   * and collateral tokens. Other router options are not compared.
+   */
+  findLocalWarpRouteId(config: WarpRouteDeployConfig): string | undefined {
+    const chains = Object.keys(config);
+    return Object.keys(this.localWarpDeployConfigs).find((routeId) => {
+      const deployed = this.localWarpDeployConfigs[routeId];
+      return (
+        Object.keys(deployed).length === chains.length &&
+        chains.every((chain) => {
+          const expected = config[chain] as { type: string; token?: string };
+          const actual = deployed[chain] as
+            | { type: string; token?: string }
+            | undefined;
+          return (
+            actual?.type === expected.type &&
+            actual.token?.toLowerCase() === expected.token?.toLowerCase()
+          );
+        })
+      );
+    });
+  }
+
+  /**
+   * The canonical ID a route is stored under. It is generated once when the
+   * route is added and kept when the route is extended to more chains.
+   */
+  generateRouteId(config: WarpCoreConfig, symbol?: string): string {
     // Create a deterministic ID based on the token connections
     const tokens = config.tokens || [];
     const chainTokens = tokens
@@ -606,43 +713,56 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
     chainNames?: string[]
   ): Promise<WarpCoreConfig[]> {
     try {
-      // Get routes based on available filters
-      const symbolRoutes = symbol
-        ? await this.getWarpRoutes({ symbol })
-        : await this.getWarpRoutes();
-
-      // If no chainNames specified, return all routes matching the symbol (or all routes)
-      if (!chainNames || chainNames.length === 0) {
-        return Object.values(symbolRoutes);
-      }
+      return Object.values(
+        await this.findWarpRoutesBySymbolAndChains(symbol, chainNames)
+      );
+    } catch (error) {
+      console.error('Error in getWarpRoutesBySymbolAndChains:', error);
+      // Never raise an error, return empty array instead
+      return [];
+    }
+  }
 
-      // Array to hold all matching configs
-      const matchingConfigs: WarpCoreConfig[] = [];
+  /**
+   * Same as getWarpRoutesBySymbolAndChains but keyed by route ID, and errors
+   * are raised instead of returning no routes
+   */
+  async findWarpRoutesBySymbolAndChains(
+    symbol?: string,
+    chainNames?: string[]
+  ): Promise<WarpRouteConfigMap> {
+    // Get routes based on available filters
+    const symbolRoutes = symbol
+      ? await this.getWarpRoutes({ symbol })
+      : await this.getWarpRoutes();
+
+    // If no chainNames specified, return all routes matching the symbol (or all routes)
+    if (!chainNames || chainNames.length === 0) {
+      return symbolRoutes;
+    }
 
-      // Filter routes to find all that include ALL specified chains
-      for (const [_, config] of Object.entries(symbolRoutes)) {
-        // Skip routes without tokens
-        if (!config.tokens || config.tokens.length === 0) continue;
+    // Map to hold all matching configs
+    const matchingConfigs: WarpRouteConfigMap = {};
 
-        // Check if all requested chains are present in this route
-        const routeChains = new Set(
-          config.tokens.map((token) => token.chainName)
-        );
-        const allChainsPresent = chainNames.every((chain) =>
-          routeChains.has(chain)
-        );
+    // Filter routes to find all that include ALL specified chains
+    for (const [routeId, config] of Object.entries(symbolRoutes)) {
+      // Skip routes without tokens
+      if (!config.tokens || config.tokens.length === 0) continue;
 
-        if (allChainsPresent) {
-          matchingConfigs.push(config);
-        }
-      }
+      // Check if all requested chains are present in this route
+      const routeChains = new Set(
+        config.tokens.map((token) => token.chainName)
+      );
+      const allChainsPresent = chainNames.every((chain) =>
+        routeChains.has(chain)
+      );
 
-      return matchingConfigs;
-    } catch (error) {
-      console.error('Error in getWarpRoutesBySymbolAndChains:', error);
-      // Never raise an error, return empty array instead
-      return [];
+      if (allChainsPresent) {
+        matchingConfigs[routeId] = config;
+      }
     }
+
+    return matchingConfigs;
   }
 
   async getWarpDeployConfigs(
@@ -672,7 +792,7 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
   ): Promise<WarpRouteDeployConfig[]> {
     try {
       // First get matching route IDs based on symbol and chains
-      const matchingRoutes = await this.getWarpRoutesBySymbolAndChains(
+      const matchingRoutes = await this.findWarpRoutesBySymbolAndChains(
         symbol,
         chainNames
       );
@@ -680,11 +800,9 @@ export class LocalRegistry extends GithubRegistry implements IRegistry {
       // Array to hold all matching deployment configs
       const deployConfigs: WarpRouteDeployConfig[] = [];
 
-      // For each matching route, try to get its deployment config
-      for (const route of matchingRoutes) {
-        // Generate route ID the same way as in addWarpRoute
-        const routeId = this.generateRouteId(route, symbol);
-
+      // For each matching route, try to get its deployment config. Routes
+      // keep their ID when extended, so it can't be regenerated from the route
+      for (const routeId of Object.keys(matchingRoutes)) {
         const deployConfig = await this.getWarpDeployConfig(routeId);
         if (deployConfig) {
           deployConfigs.push(deployConfig);
@@ -0,0 +1,155 @@
+import { BaseRegistry } from '@hyperlane-xyz/registry';
+import { ChainName, HyperlaneCore, MultiProvider } from '@hyperlane-xyz/sdk';
+import { sleep } from '@hyperlane-xyz/utils';
+import logger from './logger.js';
+import { getCore } from './utils.js';
+
+export type MessageDeliveryStatus = 'dispatched' | 'delivered' | 'stuck';
+
+export interface MessageStatus {
+  messageId: string;
+  origin: ChainName;
+  destination: ChainName;
+  status: MessageDeliveryStatus;
+  sender: string;
+  recipient: string;
+  nonce: number;
+  dispatchTxHash: string;
+  dispatchBlock: number;
+  processTxHash?: string;
+  processBlock?: number;
+  elapsedSeconds: number;
+}
+
+// A message that has not been processed after this long is reported as stuck
+export const DEFAULT_STUCK_AFTER_SECONDS = 10 * 60;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+/**
+ * Reads the origin Mailbox `Dispatch` event for a message and the destination
+ * Mailbox `delivered(id)` / `ProcessId` state to report where the message is.
+ */
+export async function getMessageStatus({
+  origin,
+  destination,
+  messageId,
+  registry,
+  multiProvider,
+  dispatchBlock,
+  stuckAfterSeconds = DEFAULT_STUCK_AFTER_SECONDS,
+}: {
+  origin: ChainName;
+  destination: ChainName;
+  messageId: string;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+  dispatchBlock?: number;
+  stuckAfterSeconds?: number;
+}): Promise<MessageStatus> {
+  const core = await getCore(origin, destination, registry, multiProvider);
+
+  const dispatchTx = await core.getDispatchTx(origin, messageId, dispatchBlock);
+  const message = HyperlaneCore.getDispatchedMessages(dispatchTx).find(
+    (m) => m.id === messageId
+  );
+  if (!message) {
+    throw new Error(
+      `Dispatch event for message ${messageId} not found in tx ${dispatchTx.transactionHash}`
+    );
+  }
+  const dispatchTimestamp = (
+    await multiProvider.getProvider(origin).getBlock(dispatchTx.blockNumber)
+  ).timestamp;
+
+  const status: MessageStatus = {
+    messageId,
+    origin,
+    destination,
+    status: 'dispatched',
+    sender: message.parsed.sender.toString(),
+    recipient: message.parsed.recipient.toString(),
+    nonce: message.parsed.nonce,
+    dispatchTxHash: dispatchTx.transactionHash,
+    dispatchBlock: dispatchTx.blockNumber,
+    elapsedSeconds: 0,
+  };
+
+  const mailbox = core.getContracts(destination).mailbox;
+  const destinationProvider = multiProvider.getProvider(destination);
+
+  if (await mailbox.delivered(messageId)) {
+    const processBlock = await mailbox.processedAt(messageId);
+    const [processEvent] = await mailbox.queryFilter(
+      mailbox.filters.ProcessId(messageId),
+      processBlock,
+      processBlock
+    );
+    const processTimestamp = (await destinationProvider.getBlock(processBlock))
+      .timestamp;
+
+    status.status = 'delivered';
+    status.processBlock = processBlock;
+    status.processTxHash = processEvent?.transactionHash;
+    status.elapsedSeconds = processTimestamp - dispatchTimestamp;
+  } else {
+    status.elapsedSeconds = Math.floor(Date.now() / 1000) - dispatchTimestamp;
+    if (status.elapsedSeconds > stuckAfterSeconds) {
+      status.status = 'stuck';
+    }
+  }
+
+  logger.info(
+    `Message ${messageId} status: ${JSON.stringify(status, null, 2)}`
+  );
+
+  return status;
+}
+
+/**
+ * Polls the destination Mailbox until the message is delivered or the timeout
+ * elapses, and returns the last observed status.
+ */
+export async function waitForMessageDelivery({
+  origin,
+  destination,
+  messageId,
+  registry,
+  multiProvider,
+  dispatchBlock,
+  timeoutSeconds,
+  pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+  stuckAfterSeconds,
+}: {
+  origin: ChainName;
+  destination: ChainName;
+  messageId: string;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+  dispatchBlock?: number;
+  timeoutSeconds: number;
+  pollIntervalMs?: number;
+  stuckAfterSeconds?: number;
+}): Promise<MessageStatus> {
+  const core = await getCore(origin, destination, registry, multiProvider);
+  const mailbox = core.getContracts(destination).mailbox;
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  logger.info(
+    `Waiting up to ${timeoutSeconds}s for message ${messageId} to be delivered on ${destination}`
+  );
+
+  while (Date.now() < deadline) {
+    if (await mailbox.delivered(messageId)) break;
+    await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+  }
+
+  return getMessageStatus({
+    origin,
+    destination,
+    messageId,
+    registry,
+    multiProvider,
+    dispatchBlock,
+    stuckAfterSeconds,
+  });
+}
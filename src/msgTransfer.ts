@@ -3,10 +3,153 @@ import { BaseRegistry } from '@hyperlane-xyz/registry';
 import {
   ChainName,
   DispatchedMessage,
-  HyperlaneCore,
   MultiProvider,
 } from '@hyperlane-xyz/sdk';
 import { addressToBytes32 } from '@hyperlane-xyz/utils';
+import { BigNumber, ContractReceipt, ethers } from 'ethers';
+import { DEFAULT_DESTINATION_GAS_LIMIT } from './consts.js';
+import { selfRelayMessage } from './selfRelay.js';
+import { getCore } from './utils.js';
+
+export const MESSAGE_BODY_ENCODINGS = [
+  'utf8',
+  'hex',
+  'abi',
+  'bytes32',
+] as const;
+export type MessageBodyEncoding = (typeof MESSAGE_BODY_ENCODINGS)[number];
+
+// Variant of the StandardHookMetadata layout understood by the core hooks
+const STANDARD_HOOK_METADATA_VARIANT = 1;
+
+export interface MessageGasOptions {
+  destinationGasLimit?: number;
+  customHookMetadata?: string;
+}
+
+/**
+ * Encodes StandardHookMetadata (variant, msgValue, gasLimit, refundAddress,
+ * customMetadata). Returns empty metadata when no gas options are given so the
+ * hooks fall back to their defaults.
+ */
+export function formatHookMetadata({
+  destinationGasLimit,
+  customHookMetadata,
+  refundAddress,
+}: MessageGasOptions & { refundAddress: string }): string {
+  if (destinationGasLimit === undefined && !customHookMetadata) {
+    return '0x';
+  }
+
+  return ethers.utils.solidityPack(
+    ['uint16', 'uint256', 'uint256', 'address', 'bytes'],
+    [
+      STANDARD_HOOK_METADATA_VARIANT,
+      0,
+      destinationGasLimit ?? DEFAULT_DESTINATION_GAS_LIMIT,
+      refundAddress,
+      customHookMetadata ?? '0x',
+    ]
+  );
+}
+
+/**
+ * Encodes a message body for dispatch.
+ * - `utf8`: the UTF-8 bytes of the body, without a length cap
+ * - `hex`: the body is already a 0x-prefixed hex string and is passed through
+ * - `abi`: the body is a JSON array of args, encoded against `abiSignature`,
+ *   which is either a function signature (`transfer(address,uint256)`, the
+ *   selector is prepended) or a comma-separated list of types
+ * - `bytes32`: legacy mode, a bytes32 string capped at 31 characters
+ */
+export function encodeMessageBody({
+  messageBody,
+  bodyEncoding,
+  abiSignature,
+}: {
+  messageBody: string;
+  bodyEncoding: MessageBodyEncoding;
+  abiSignature?: string;
+}): string {
+  switch (bodyEncoding) {
+    case 'utf8':
+      return ethers.utils.hexlify(ethers.utils.toUtf8Bytes(messageBody));
+    case 'hex':
+      if (!ethers.utils.isHexString(messageBody) || messageBody.length % 2) {
+        throw new Error(
+          `Message body is not a valid hex string: ${messageBody}`
+        );
+      }
+      return messageBody;
+    case 'abi': {
+      if (!abiSignature) {
+        throw new Error('abiSignature is required for the abi body encoding');
+      }
+
+      let args: unknown;
+      try {
+        args = JSON.parse(messageBody);
+      } catch (error) {
+        throw new Error(`Message body is not a valid JSON array: ${error}`);
+      }
+      if (!Array.isArray(args)) {
+        throw new Error('Message body must be a JSON array of ABI arguments');
+      }
+
+      const signature = abiSignature.trim().replace(/^function\s+/, '');
+      if (/^\w+\s*\(/.test(signature)) {
+        const fragment = ethers.utils.FunctionFragment.from(signature);
+        return new ethers.utils.Interface([fragment]).encodeFunctionData(
+          fragment,
+          args
+        );
+      }
+
+      // Parse the bare type list through a dummy fragment so that nested
+      // tuples are split correctly
+      const { inputs } = ethers.utils.FunctionFragment.from(`f(${signature})`);
+      return ethers.utils.defaultAbiCoder.encode(inputs, args);
+    }
+    case 'bytes32':
+      return ethers.utils.formatBytes32String(messageBody);
+  }
+}
+
+export async function quoteMessageFee({
+  origin,
+  destination,
+  recipient,
+  messageBody,
+  registry,
+  multiProvider,
+  refundAddress,
+  destinationGasLimit,
+  customHookMetadata,
+}: {
+  origin: ChainName;
+  destination: ChainName;
+  recipient: string;
+  messageBody: string;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+  refundAddress: string;
+} & MessageGasOptions): Promise<BigNumber> {
+  const core = await getCore(origin, destination, registry, multiProvider);
+
+  const metadata = formatHookMetadata({
+    destinationGasLimit,
+    customHookMetadata,
+    refundAddress,
+  });
+
+  return core.quoteGasPayment(
+    origin,
+    destination,
+    addressToBytes32(recipient),
+    messageBody,
+    metadata
+  );
+}
 
 export async function msgTransfer({
   origin,
@@ -15,6 +158,9 @@ export async function msgTransfer({
   messageBody,
   registry,
   multiProvider,
+  destinationGasLimit,
+  customHookMetadata,
+  selfRelay = false,
 }: {
   origin: ChainName;
   destination: ChainName;
@@ -22,25 +168,51 @@ export async function msgTransfer({
   messageBody: string;
   registry: BaseRegistry;
   multiProvider: MultiProvider;
+  selfRelay?: boolean;
   // log: (params: any) => Promise<void>;
-}): Promise<[TransactionReceipt, DispatchedMessage]> {
-  const updatedChainAddresses = {
-    [origin]: (await registry.getAddresses())[origin],
-    [destination]: (await registry.getAddresses())[destination],
-  };
-
-  const core = HyperlaneCore.fromAddressesMap(
-    updatedChainAddresses,
-    multiProvider
-  );
+} & MessageGasOptions): Promise<
+  [TransactionReceipt, DispatchedMessage, BigNumber, ContractReceipt?]
+> {
+  const core = await getCore(origin, destination, registry, multiProvider);
 
+  const sender = await multiProvider.getSignerAddress(origin);
   const formattedRecipient = addressToBytes32(recipient);
-  const { dispatchTx, message } = await core.sendMessage(
+  const metadata = formatHookMetadata({
+    destinationGasLimit,
+    customHookMetadata,
+    refundAddress: sender,
+  });
+
+  // Quote against the origin Mailbox's hooks so the dispatch pays for
+  // interchain gas and relayers pick the message up
+  const fee = await core.quoteGasPayment(
     origin,
     destination,
     formattedRecipient,
-    messageBody
+    messageBody,
+    metadata
   );
 
-  return [dispatchTx, message];
+  const mailbox = core.getContracts(origin).mailbox;
+  const dispatchTx = await multiProvider.handleTx(
+    origin,
+    mailbox['dispatch(uint32,bytes32,bytes,bytes)'](
+      multiProvider.getDomainId(destination),
+      formattedRecipient,
+      messageBody,
+      metadata,
+      {
+        ...multiProvider.getTransactionOverrides(origin),
+        value: fee,
+      }
+    )
+  );
+  const [message] = core.getDispatchedMessages(dispatchTx);
+
+  if (selfRelay) {
+    const processTx = await selfRelayMessage({ core, dispatchTx, message });
+    return [dispatchTx, message, fee, processTx];
+  }
+
+  return [dispatchTx, message, fee];
 }
@@ -0,0 +1,266 @@
+import {
+  HypERC721__factory,
+  HypERC721Collateral__factory,
+  IERC721__factory,
+} from '@hyperlane-xyz/core';
+import { BaseRegistry } from '@hyperlane-xyz/registry';
+import {
+  ChainName,
+  HyperlaneCore,
+  MultiProvider,
+  parseTokenConnectionId,
+  TokenType,
+  WarpCoreConfig,
+  WarpRouteDeployConfig,
+} from '@hyperlane-xyz/sdk';
+import { Address, addressToBytes32, eqAddress } from '@hyperlane-xyz/utils';
+import { BigNumber } from 'ethers';
+import logger from './logger.js';
+import { selfRelayMessage } from './selfRelay.js';
+import { getCore } from './utils.js';
+
+export type NftTransferErrorCode =
+  | 'TOKEN_NOT_FOUND'
+  | 'NOT_TOKEN_OWNER'
+  | 'INSUFFICIENT_INTERCHAIN_GAS';
+
+export interface NftTransferFailure {
+  error: NftTransferErrorCode;
+  message: string;
+  origin: ChainName;
+  destination: ChainName;
+  tokenId: string;
+}
+
+export interface NftTransferStep {
+  category: 'approval' | 'transfer';
+  transactionHash: string;
+}
+
+export interface NftTransfer {
+  origin: ChainName;
+  destination: ChainName;
+  router: Address;
+  // Collection the token ID belongs to: the wrapped ERC721 on collateral
+  // chains, the router itself on synthetic ones
+  collection: Address;
+  tokenId: string;
+  recipient: Address;
+  interchainGas: string;
+  steps: NftTransferStep[];
+  messageId?: string;
+  processTransactionHash?: string;
+}
+
+/**
+ * Looks up the NFT router of the route on the origin chain that is connected
+ * to the destination. The deploy config tells NFT routes apart, the warp core
+ * config lists them with the same standards as fungible ones.
+ */
+export function getNftRouter({
+  warpCoreConfig,
+  warpRouteDeployConfig,
+  origin,
+  destination,
+}: {
+  warpCoreConfig: WarpCoreConfig;
+  warpRouteDeployConfig: WarpRouteDeployConfig;
+  origin: ChainName;
+  destination: ChainName;
+}): [Address, TokenType.collateralUri | TokenType.syntheticUri] {
+  const type = warpRouteDeployConfig[origin]?.type;
+  if (type !== TokenType.collateralUri && type !== TokenType.syntheticUri) {
+    throw new Error(
+      `Warp route router on ${origin} is not an NFT router (${
+        type ?? 'missing'
+      })`
+    );
+  }
+
+  const token = warpCoreConfig.tokens.find(
+    (token) =>
+      token.chainName === origin &&
+      token.addressOrDenom &&
+      token.connections?.some(
+        ({ token }) => parseTokenConnectionId(token).chainName === destination
+      )
+  );
+  if (!token) {
+    throw new Error(
+      `Warp route has no router on ${origin} connected to ${destination}`
+    );
+  }
+
+  return [token.addressOrDenom!, type];
+}
+
+/**
+ * Sends an NFT over a warp route deployed with collateralUri or syntheticUri
+ * routers. On collateral chains the router pulls the token from the signer, so
+ * it is approved first unless it already is, for the token ID only or for the
+ * whole collection with `approveAll`. Synthetic routers burn the token and
+ * need no approval.
+ */
+export async function nftTransfer({
+  warpCoreConfig,
+  warpRouteDeployConfig,
+  origin,
+  destination,
+  tokenId,
+  recipient,
+  multiProvider,
+  registry,
+  selfRelay = false,
+  approveAll = false,
+}: {
+  warpCoreConfig: WarpCoreConfig;
+  warpRouteDeployConfig: WarpRouteDeployConfig;
+  origin: ChainName;
+  destination: ChainName;
+  tokenId: string;
+  recipient: Address;
+  multiProvider: MultiProvider;
+  registry: BaseRegistry;
+  selfRelay?: boolean;
+  approveAll?: boolean;
+}): Promise<[NftTransfer, NftTransferFailure?]> {
+  const [router, type] = getNftRouter({
+    warpCoreConfig,
+    warpRouteDeployConfig,
+    origin,
+    destination,
+  });
+  const signer = multiProvider.getSigner(origin);
+  const sender = await signer.getAddress();
+
+  const collection =
+    type === TokenType.collateralUri
+      ? await HypERC721Collateral__factory.connect(
+          router,
+          signer
+        ).wrappedToken()
+      : router;
+  const erc721 = IERC721__factory.connect(collection, signer);
+  const hypErc721 = HypERC721__factory.connect(router, signer);
+
+  const destinationDomain = multiProvider.getDomainId(destination);
+  const interchainGas = await hypErc721.quoteGasPayment(destinationDomain);
+
+  const result: NftTransfer = {
+    origin,
+    destination,
+    router,
+    collection,
+    tokenId,
+    recipient,
+    interchainGas: interchainGas.toString(),
+    steps: [],
+  };
+
+  // ownerOf reverts for token IDs that were never minted or were burned, any
+  // other error, e.g. from the RPC, is thrown as is
+  let owner: Address;
+  try {
+    owner = await erc721.ownerOf(tokenId);
+  } catch (error: any) {
+    if (error?.code !== 'CALL_EXCEPTION') throw error;
+    return [
+      result,
+      {
+        error: 'TOKEN_NOT_FOUND',
+        message: `Token ${tokenId} does not exist in ${collection} on ${origin}`,
+        origin,
+        destination,
+        tokenId,
+      },
+    ];
+  }
+  if (!eqAddress(owner, sender)) {
+    return [
+      result,
+      {
+        error: 'NOT_TOKEN_OWNER',
+        message: `Token ${tokenId} of ${collection} on ${origin} is owned by ${owner}, not by the sender ${sender}`,
+        origin,
+        destination,
+        tokenId,
+      },
+    ];
+  }
+
+  const balance = await signer.getBalance();
+  if (balance.lt(interchainGas)) {
+    return [
+      result,
+      {
+        error: 'INSUFFICIENT_INTERCHAIN_GAS',
+        message: `Insufficient native balance on ${origin} for interchain gas: ${balance} < ${interchainGas}`,
+        origin,
+        destination,
+        tokenId,
+      },
+    ];
+  }
+
+  if (type === TokenType.collateralUri) {
+    const approved =
+      (await erc721.isApprovedForAll(sender, router)) ||
+      (!approveAll && eqAddress(await erc721.getApproved(tokenId), router));
+    if (!approved) {
+      logger.info(
+        `Approving ${
+          approveAll ? 'all tokens' : `token ${tokenId}`
+        } of ${collection} for router ${router} on ${origin}`
+      );
+      const approvalTx = await multiProvider.handleTx(
+        origin,
+        approveAll
+          ? erc721.setApprovalForAll(
+              router,
+              true,
+              multiProvider.getTransactionOverrides(origin)
+            )
+          : erc721.approve(
+              router,
+              tokenId,
+              multiProvider.getTransactionOverrides(origin)
+            )
+      );
+      result.steps.push({
+        category: 'approval',
+        transactionHash: approvalTx.transactionHash,
+      });
+    }
+  }
+
+  const dispatchTx = await multiProvider.handleTx(
+    origin,
+    hypErc721['transferRemote(uint32,bytes32,uint256)'](
+      destinationDomain,
+      addressToBytes32(recipient),
+      BigNumber.from(tokenId),
+      {
+        ...multiProvider.getTransactionOverrides(origin),
+        value: interchainGas,
+      }
+    )
+  );
+  result.steps.push({
+    category: 'transfer',
+    transactionHash: dispatchTx.transactionHash,
+  });
+
+  const [message] = HyperlaneCore.getDispatchedMessages(dispatchTx);
+  result.messageId = message.id;
+  logger.info(
+    `Dispatched token ${tokenId} from ${origin} to ${destination} in message ${message.id}`
+  );
+
+  if (selfRelay) {
+    const core = await getCore(origin, destination, registry, multiProvider);
+    const processTx = await selfRelayMessage({ core, dispatchTx, message });
+    result.processTransactionHash = processTx?.transactionHash;
+  }
+
+  return [result];
+}
@@ -0,0 +1,435 @@
+import { TransactionReceipt } from '@ethersproject/abstract-provider';
+import { MerkleTreeHook__factory } from '@hyperlane-xyz/core';
+import {
+  ChainName,
+  DerivedIsmConfig,
+  DispatchedMessage,
+  EvmIsmReader,
+  HyperlaneCore,
+  IsmType,
+} from '@hyperlane-xyz/sdk';
+import {
+  BaseValidator,
+  bytes32ToAddress,
+  eqAddress,
+  S3CheckpointWithId,
+  SignatureLike,
+  sleep,
+  strip0x,
+} from '@hyperlane-xyz/utils';
+import { ContractReceipt, ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import logger from './logger.js';
+import { getValidatorSignaturesDir } from './RunValidator.js';
+
+const MERKLE_TREE_DEPTH = 32;
+const CHECKPOINT_POLL_INTERVAL_MS = 2_000;
+const DEFAULT_CHECKPOINT_TIMEOUT_SECONDS = 120;
+
+interface MerkleInsertion {
+  merkleTreeHook: string;
+  index: number;
+}
+
+interface RelayContext {
+  core: HyperlaneCore;
+  origin: ChainName;
+  destination: ChainName;
+  dispatchTx: TransactionReceipt;
+  message: DispatchedMessage;
+  relayerAddress: string;
+  checkpointDeadline: number;
+}
+
+function findMerkleInsertion(
+  dispatchTx: TransactionReceipt,
+  messageId: string
+): MerkleInsertion {
+  const merkleTreeInterface = MerkleTreeHook__factory.createInterface();
+  for (const log of dispatchTx.logs) {
+    try {
+      const parsed = merkleTreeInterface.parseLog(log);
+      if (
+        parsed.name === 'InsertedIntoTree' &&
+        parsed.args.messageId === messageId
+      ) {
+        return { merkleTreeHook: log.address, index: parsed.args.index };
+      }
+    } catch {
+      // Not a merkle tree hook log
+    }
+  }
+
+  throw new Error(
+    `No merkle tree insertion of message ${messageId} found in dispatch tx ${dispatchTx.transactionHash}`
+  );
+}
+
+function readCheckpoint(
+  signaturesDir: string,
+  index: number
+): S3CheckpointWithId | undefined {
+  const filePath = path.join(signaturesDir, `${index}_with_id.json`);
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as S3CheckpointWithId;
+}
+
+function readLatestCheckpointIndex(signaturesDir: string): number | undefined {
+  const filePath = path.join(signaturesDir, 'index.json');
+  if (!fs.existsSync(filePath)) return undefined;
+  return Number(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+}
+
+/**
+ * Waits for the local validator of the origin chain to sign a checkpoint that
+ * covers the message. Message ID multisig ISMs need the checkpoint at exactly
+ * the message index, merkle root multisig ISMs accept any later checkpoint.
+ */
+async function waitForLocalCheckpoint(
+  context: RelayContext,
+  insertion: MerkleInsertion,
+  exactIndex: boolean
+): Promise<S3CheckpointWithId> {
+  const signaturesDir = getValidatorSignaturesDir(context.origin);
+  logger.info(
+    `Waiting for checkpoint ${insertion.index} of ${context.origin} in ${signaturesDir}`
+  );
+
+  while (Date.now() < context.checkpointDeadline) {
+    const checkpoint = readCheckpoint(signaturesDir, insertion.index);
+    if (checkpoint) return checkpoint;
+
+    const latestIndex = readLatestCheckpointIndex(signaturesDir);
+    if (
+      !exactIndex &&
+      latestIndex !== undefined &&
+      latestIndex >= insertion.index
+    ) {
+      const latest = readCheckpoint(signaturesDir, latestIndex);
+      if (latest) return latest;
+    }
+
+    await sleep(CHECKPOINT_POLL_INTERVAL_MS);
+  }
+
+  throw new Error(
+    `Timed out waiting for a signed checkpoint at index ${insertion.index} in ${signaturesDir}. Is the validator for ${context.origin} running?`
+  );
+}
+
+function zeroHashes(): string[] {
+  const zeroes = [ethers.constants.HashZero];
+  for (let i = 1; i < MERKLE_TREE_DEPTH; i++) {
+    zeroes.push(
+      ethers.utils.solidityKeccak256(
+        ['bytes32', 'bytes32'],
+        [zeroes[i - 1], zeroes[i - 1]]
+      )
+    );
+  }
+  return zeroes;
+}
+
+/**
+ * Computes the root of the incremental merkle tree over `leaves` and the
+ * branch proving the leaf at `leafIndex`
+ */
+function merkleProof(
+  leaves: string[],
+  leafIndex: number
+): { root: string; branch: string[] } {
+  const zeroes = zeroHashes();
+  const branch: string[] = [];
+  let nodes = leaves;
+  let index = leafIndex;
+
+  for (let depth = 0; depth < MERKLE_TREE_DEPTH; depth++) {
+    branch.push(nodes[index ^ 1] ?? zeroes[depth]);
+
+    const parents: string[] = [];
+    for (let i = 0; i < nodes.length; i += 2) {
+      parents.push(
+        ethers.utils.solidityKeccak256(
+          ['bytes32', 'bytes32'],
+          [nodes[i], nodes[i + 1] ?? zeroes[depth]]
+        )
+      );
+    }
+    nodes = parents;
+    index >>= 1;
+  }
+
+  return { root: nodes[0], branch };
+}
+
+async function getMerkleTreeLeaves(
+  context: RelayContext,
+  merkleTreeHook: string,
+  lastIndex: number
+): Promise<string[]> {
+  const hook = MerkleTreeHook__factory.connect(
+    merkleTreeHook,
+    context.core.multiProvider.getProvider(context.origin)
+  );
+  const fromBlock = (await hook.deployedBlock()).toNumber();
+  const events = await hook.queryFilter(
+    hook.filters.InsertedIntoTree(),
+    fromBlock,
+    'latest'
+  );
+
+  const leaves: string[] = [];
+  for (const event of events) {
+    leaves[event.args.index] = event.args.messageId;
+  }
+  for (let i = 0; i <= lastIndex; i++) {
+    if (!leaves[i]) {
+      throw new Error(
+        `Missing merkle tree insertion ${i} on ${merkleTreeHook}, cannot build proof`
+      );
+    }
+  }
+
+  return leaves.slice(0, lastIndex + 1);
+}
+
+function collectSignatures(
+  ism: { validators: string[]; threshold: number },
+  checkpoint: S3CheckpointWithId
+): SignatureLike[] {
+  const signer = BaseValidator.recoverAddress(checkpoint);
+  const signatures = ism.validators
+    .filter((validator) => eqAddress(validator, signer))
+    .map(() => checkpoint.signature);
+
+  if (signatures.length < ism.threshold) {
+    throw new Error(
+      `Only ${signatures.length} of ${
+        ism.threshold
+      } required signatures found in local checkpoints (signer ${signer}, validators ${ism.validators.join(
+        ', '
+      )})`
+    );
+  }
+
+  return signatures.slice(0, ism.threshold);
+}
+
+function encodeSignatures(signatures: SignatureLike[]): string {
+  return signatures
+    .map((signature) => strip0x(ethers.utils.joinSignature(signature)))
+    .join('');
+}
+
+async function buildMultisigMetadata(
+  context: RelayContext,
+  ism: DerivedIsmConfig & { validators: string[]; threshold: number }
+): Promise<string> {
+  const insertion = findMerkleInsertion(context.dispatchTx, context.message.id);
+  const exactIndex = ism.type === IsmType.MESSAGE_ID_MULTISIG;
+  const checkpoint = await waitForLocalCheckpoint(
+    context,
+    insertion,
+    exactIndex
+  );
+  const signed = checkpoint.value.checkpoint;
+
+  if (
+    !eqAddress(
+      bytes32ToAddress(signed.merkle_tree_hook_address),
+      insertion.merkleTreeHook
+    )
+  ) {
+    throw new Error(
+      `Checkpoint was signed for merkle tree hook ${signed.merkle_tree_hook_address}, expected ${insertion.merkleTreeHook}`
+    );
+  }
+
+  const signatures = encodeSignatures(collectSignatures(ism, checkpoint));
+
+  if (ism.type === IsmType.MESSAGE_ID_MULTISIG) {
+    // [merkle tree hook][signed root][signed index][signatures]
+    return ethers.utils.solidityPack(
+      ['bytes32', 'bytes32', 'uint32', 'bytes'],
+      [
+        ethers.utils.hexZeroPad(insertion.merkleTreeHook, 32),
+        signed.root,
+        signed.index,
+        `0x${signatures}`,
+      ]
+    );
+  }
+
+  const leaves = await getMerkleTreeLeaves(
+    context,
+    insertion.merkleTreeHook,
+    signed.index
+  );
+  const { root, branch } = merkleProof(leaves, insertion.index);
+  if (root !== signed.root) {
+    throw new Error(
+      `Computed merkle root ${root} does not match signed root ${signed.root} at index ${signed.index}`
+    );
+  }
+
+  // [merkle tree hook][message index][signed message id][proof][signed index][signatures]
+  return ethers.utils.solidityPack(
+    ['bytes32', 'uint32', 'bytes32', 'bytes32[32]', 'uint32', 'bytes'],
+    [
+      ethers.utils.hexZeroPad(insertion.merkleTreeHook, 32),
+      insertion.index,
+      checkpoint.value.message_id,
+      branch,
+      signed.index,
+      `0x${signatures}`,
+    ]
+  );
+}
+
+async function buildAggregationMetadata(
+  context: RelayContext,
+  modules: DerivedIsmConfig[],
+  threshold: number
+): Promise<string> {
+  const metadatas: (string | undefined)[] = [];
+  let built = 0;
+  for (const module of modules) {
+    if (built >= threshold) {
+      metadatas.push(undefined);
+      continue;
+    }
+    try {
+      metadatas.push(await buildIsmMetadata(context, module));
+      built++;
+    } catch (error) {
+      logger.info(
+        `Skipping aggregation module ${module.address} (${module.type}): ${error}`
+      );
+      metadatas.push(undefined);
+    }
+  }
+
+  if (built < threshold) {
+    throw new Error(
+      `Only ${built} of ${threshold} aggregation ISM modules could be satisfied`
+    );
+  }
+
+  // Each module gets a (start, end) uint32 range into the metadata that
+  // follows the range table. Modules without metadata get an empty range.
+  const ranges: number[] = [];
+  let offset = modules.length * 8;
+  let body = '';
+  for (const metadata of metadatas) {
+    if (metadata === undefined) {
+      ranges.push(0, 0);
+      continue;
+    }
+    const bytes = strip0x(metadata);
+    ranges.push(offset, offset + bytes.length / 2);
+    offset += bytes.length / 2;
+    body += bytes;
+  }
+
+  return (
+    ethers.utils.solidityPack(
+      ranges.map(() => 'uint32'),
+      ranges
+    ) + body
+  );
+}
+
+async function buildIsmMetadata(
+  context: RelayContext,
+  ism: DerivedIsmConfig
+): Promise<string> {
+  switch (ism.type) {
+    case IsmType.TEST_ISM:
+      return '0x';
+    case IsmType.TRUSTED_RELAYER:
+      if (!eqAddress(ism.relayer, context.relayerAddress)) {
+        throw new Error(
+          `Trusted relayer ISM ${ism.address} only accepts ${ism.relayer}, not ${context.relayerAddress}`
+        );
+      }
+      return '0x';
+    case IsmType.MERKLE_ROOT_MULTISIG:
+    case IsmType.MESSAGE_ID_MULTISIG:
+      return buildMultisigMetadata(context, ism);
+    case IsmType.ROUTING:
+    case IsmType.FALLBACK_ROUTING: {
+      const module = ism.domains[context.origin];
+      if (!module || typeof module === 'string') {
+        throw new Error(
+          `Routing ISM ${ism.address} has no module configured for ${context.origin}`
+        );
+      }
+      return buildIsmMetadata(context, module as DerivedIsmConfig);
+    }
+    case IsmType.AGGREGATION:
+      return buildAggregationMetadata(
+        context,
+        ism.modules as DerivedIsmConfig[],
+        ism.threshold
+      );
+    default:
+      throw new Error(`Self-relay does not support ISM type ${ism.type}`);
+  }
+}
+
+/**
+ * Delivers a dispatched message by building metadata for the recipient's ISM
+ * from local validator checkpoints and calling `Mailbox.process` with the
+ * destination signer, without going through a relayer.
+ */
+export async function selfRelayMessage({
+  core,
+  dispatchTx,
+  message,
+  checkpointTimeoutSeconds = DEFAULT_CHECKPOINT_TIMEOUT_SECONDS,
+}: {
+  core: HyperlaneCore;
+  dispatchTx: TransactionReceipt;
+  message: DispatchedMessage;
+  checkpointTimeoutSeconds?: number;
+}): Promise<ContractReceipt | undefined> {
+  const origin = core.getOrigin(message);
+  const destination = core.getDestination(message);
+
+  if (await core.isDelivered(message)) {
+    logger.info(`Message ${message.id} already delivered on ${destination}`);
+    return undefined;
+  }
+
+  const ismAddress = await core.getRecipientIsmAddress(message);
+  const ism = await new EvmIsmReader(
+    core.multiProvider,
+    destination
+  ).deriveIsmConfig(ismAddress);
+  logger.info(
+    `Self-relaying message ${
+      message.id
+    } to ${destination} through ISM ${JSON.stringify(ism)}`
+  );
+
+  const metadata = await buildIsmMetadata(
+    {
+      core,
+      origin,
+      destination,
+      dispatchTx,
+      message,
+      relayerAddress: await core.multiProvider.getSignerAddress(destination),
+      checkpointDeadline: Date.now() + checkpointTimeoutSeconds * 1000,
+    },
+    ism
+  );
+
+  const processTx = await core.deliver(message, metadata);
+  logger.info(
+    `Message ${message.id} self-relayed in tx ${processTx.transactionHash}`
+  );
+
+  return processTx;
+}
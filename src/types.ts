@@ -54,3 +54,187 @@ export interface ChainTokenConfig {
   tokenSymbol?: string;
   tokenName?: string;
 }
+
+export const ISM_OPTION_TYPES = [
+  'merkleRootMultisig',
+  'messageIdMultisig',
+  'aggregation',
+  'routing',
+  'trustedRelayer',
+  'testIsm',
+] as const;
+
+const EvmAddressSchema = z
+  .string()
+  .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address');
+
+const ModuleIsmOptionsSchema = z.object({
+  type: z
+    .enum([
+      'merkleRootMultisig',
+      'messageIdMultisig',
+      'trustedRelayer',
+      'testIsm',
+    ])
+    .describe('ISM type'),
+  validators: z
+    .array(EvmAddressSchema)
+    .optional()
+    .describe(
+      'Validator addresses for multisig ISMs (defaults to the deployer address)'
+    ),
+  threshold: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Number of validator signatures (multisig) or modules (aggregation) required, defaults to 1 for multisig and all modules for aggregation'
+    ),
+  relayer: EvmAddressSchema.optional().describe(
+    'Relayer address for trustedRelayer ISMs (defaults to the deployer address)'
+  ),
+});
+
+export const IsmOptionsSchema = ModuleIsmOptionsSchema.extend({
+  type: z.enum(ISM_OPTION_TYPES).describe('ISM type'),
+  modules: z
+    .array(ModuleIsmOptionsSchema)
+    .optional()
+    .describe('Sub-ISMs of an aggregation ISM'),
+  domains: z
+    .record(ModuleIsmOptionsSchema)
+    .optional()
+    .describe('Sub-ISM per origin chain name of a routing ISM'),
+});
+
+export type ModuleIsmOptions = z.infer<typeof ModuleIsmOptionsSchema>;
+export type IsmOptions = z.infer<typeof IsmOptionsSchema>;
+
+export const HOOK_OPTION_TYPES = [
+  'merkleTree',
+  'interchainGasPaymaster',
+  'protocolFee',
+  'pausable',
+  'aggregation',
+  'routing',
+] as const;
+
+const GasOracleOptionsSchema = z.object({
+  gasPrice: z.string().describe('Gas price on the remote chain, in wei'),
+  tokenExchangeRate: z
+    .string()
+    .describe(
+      'Exchange rate of the remote native token to the local native token, scaled by 1e10'
+    ),
+  tokenDecimals: z
+    .number()
+    .int()
+    .optional()
+    .describe('Decimals of the remote native token'),
+});
+
+const ModuleHookOptionsSchema = z.object({
+  type: z
+    .enum(['merkleTree', 'interchainGasPaymaster', 'protocolFee', 'pausable'])
+    .describe('Hook type'),
+  owner: EvmAddressSchema.optional().describe(
+    'Owner of the hook (defaults to the deployer address)'
+  ),
+  beneficiary: EvmAddressSchema.optional().describe(
+    'Recipient of collected gas payments or protocol fees (defaults to the owner)'
+  ),
+  oracleKey: EvmAddressSchema.optional().describe(
+    'Address allowed to update the IGP gas oracle (defaults to the owner)'
+  ),
+  overhead: z
+    .record(z.number().int().nonnegative())
+    .optional()
+    .describe('IGP destination gas overhead per remote chain name'),
+  oracleConfig: z
+    .record(GasOracleOptionsSchema)
+    .optional()
+    .describe(
+      'IGP gas oracle config per remote chain name. Dispatches to remotes without an entry revert'
+    ),
+  protocolFee: z
+    .string()
+    .optional()
+    .describe('Protocol fee charged per dispatch, in wei'),
+  maxProtocolFee: z
+    .string()
+    .optional()
+    .describe('Maximum protocol fee, in wei (defaults to protocolFee)'),
+  paused: z
+    .boolean()
+    .optional()
+    .describe('Whether a pausable hook starts paused'),
+});
+
+export const HookOptionsSchema = ModuleHookOptionsSchema.extend({
+  type: z.enum(HOOK_OPTION_TYPES).describe('Hook type'),
+  hooks: z
+    .array(ModuleHookOptionsSchema)
+    .optional()
+    .describe('Sub-hooks of an aggregation hook, run in order'),
+  domains: z
+    .record(ModuleHookOptionsSchema)
+    .optional()
+    .describe('Sub-hook per destination chain name of a routing hook'),
+});
+
+export type ModuleHookOptions = z.infer<typeof ModuleHookOptionsSchema>;
+export type HookOptions = z.infer<typeof HookOptionsSchema>;
+
+export const WarpChainOptionsSchema = z.object({
+  interchainSecurityModule: z
+    .union([EvmAddressSchema, IsmOptionsSchema])
+    .optional()
+    .describe(
+      'ISM of the token router, as an existing ISM address or ISM options (defaults to the mailbox default ISM)'
+    ),
+  hook: z
+    .union([EvmAddressSchema, HookOptionsSchema])
+    .optional()
+    .describe(
+      'Hook of the token router, as an existing hook address or hook options (defaults to the mailbox default hook)'
+    ),
+  owner: EvmAddressSchema.optional().describe(
+    'Owner of the token router (defaults to the deployer address)'
+  ),
+  proxyAdmin: z
+    .object({
+      owner: EvmAddressSchema.describe('Owner of the proxy admin'),
+      address: EvmAddressSchema.optional().describe(
+        'Existing proxy admin to reuse'
+      ),
+    })
+    .optional()
+    .describe(
+      'Proxy admin of the token router (defaults to a new one owned by the router owner)'
+    ),
+  name: z.string().optional().describe('Token name'),
+  symbol: z.string().optional().describe('Token symbol'),
+  decimals: z
+    .number()
+    .int()
+    .min(0)
+    .max(255)
+    .optional()
+    .describe('Token decimals'),
+  scale: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Factor local amounts are multiplied by on transfer, to bridge tokens with different decimals'
+    ),
+  initialSupply: z
+    .string()
+    .regex(/^\d+$/, 'Must be an integer amount in base units')
+    .optional()
+    .describe('Initial supply minted to the owner, synthetic tokens only'),
+});
+
+export type WarpChainOptions = z.infer<typeof WarpChainOptionsSchema>;
@@ -6,6 +6,7 @@ import {
 import {
   AgentConfig,
   AgentConfigSchema,
+  AnnotatedEV5Transaction,
   ChainMap,
   ChainMetadata,
   ChainName,
@@ -15,9 +16,13 @@ import {
   IsmConfig,
   IsmType,
   MultiProvider,
+  normalizeConfig,
 } from '@hyperlane-xyz/sdk';
 import {
+  deepEquals,
   ensure0x,
+  eqAddress,
+  isObject,
   objMap,
   promiseObjAll,
   ProtocolType,
@@ -101,6 +106,35 @@ export async function confirmExistingMailbox(
   }
 }
 
+/**
+ * Core contracts of the origin and destination chains, as listed in the
+ * registry
+ */
+export async function getCore(
+  origin: ChainName,
+  destination: ChainName,
+  registry: BaseRegistry,
+  multiProvider: MultiProvider
+): Promise<HyperlaneCore> {
+  const addresses = await registry.getAddresses();
+  if (!addresses[origin]?.mailbox) {
+    throw new Error(`No mailbox address found for origin chain ${origin}`);
+  }
+  if (!addresses[destination]?.mailbox) {
+    throw new Error(
+      `No mailbox address found for destination chain ${destination}`
+    );
+  }
+
+  return HyperlaneCore.fromAddressesMap(
+    {
+      [origin]: addresses[origin],
+      [destination]: addresses[destination],
+    },
+    multiProvider
+  );
+}
+
 export async function nativeBalancesAreSufficient(
   multiProvider: MultiProvider,
   chains: ChainName[],
@@ -113,7 +147,7 @@ export async function nativeBalancesAreSufficient(
       // logGray(`Skipping balance check for non-EVM chain: ${chain}`);
       continue;
     }
-    const address = multiProvider.getSigner(chain).getAddress();
+    const address = await multiProvider.getSigner(chain).getAddress();
     const provider = multiProvider.getProvider(chain);
     const gasPrice = await provider.getGasPrice();
     const minBalanceWei = gasPrice.mul(minGas).toString();
@@ -126,6 +160,9 @@ export async function nativeBalancesAreSufficient(
     if (balanceWei.lt(minBalanceWei)) {
       const symbol =
         multiProvider.getChainMetadata(chain).nativeToken?.symbol ?? 'ETH';
+      logger.error(
+        `${address} has low balance on ${chain}. At least ${minBalance} ${symbol} recommended but found ${balance} ${symbol}`
+      );
       sufficientBalances.push(false);
     }
   }
@@ -200,9 +237,9 @@ export async function handleMissingInterchainGasPaymaster(
   for (const [chain, addressRecord] of Object.entries(chainAddresses)) {
     if (!addressRecord.interchainGasPaymaster) {
       console.warn(`Interchain gas paymaster not found for chain ${chain}`);
+      chainAddresses[chain].interchainGasPaymaster =
+        ethers.constants.AddressZero;
     }
-
-    chainAddresses[chain].interchainGasPaymaster = ethers.constants.AddressZero;
   }
 }
 
@@ -227,3 +264,81 @@ export const createDirectory = (directoryPath: string): void => {
     logger.info(`Created directory: ${directoryPath}`);
   }
 };
+
+export interface ConfigDifference {
+  path: string;
+  actual: unknown;
+  expected: unknown;
+}
+
+export interface ConfigTransaction {
+  annotation?: string;
+  to?: string;
+  data?: string;
+  value?: string;
+  transactionHash?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return isObject(value);
+}
+
+/**
+ * Compares only the fields set in the expected config. Contracts given by
+ * address in the expected config match a derived config at that address.
+ */
+export function diffConfig(
+  actual: unknown,
+  expected: unknown,
+  path: string
+): ConfigDifference[] {
+  if (expected === undefined) return [];
+
+  if (
+    typeof expected === 'string' &&
+    isRecord(actual) &&
+    typeof actual.address === 'string'
+  ) {
+    return eqAddress(actual.address, expected)
+      ? []
+      : [{ path, actual: actual.address, expected }];
+  }
+
+  if (isRecord(expected)) {
+    if (!isRecord(actual)) return [{ path, actual, expected }];
+    return Object.keys(expected).flatMap((key) =>
+      diffConfig(actual[key], expected[key], path ? `${path}.${key}` : key)
+    );
+  }
+
+  return deepEquals(normalizeConfig(actual), normalizeConfig(expected))
+    ? []
+    : [{ path, actual, expected }];
+}
+
+/**
+ * Sends the transactions in order, or only lists them in dry-run mode.
+ */
+export async function sendTransactions(
+  multiProvider: MultiProvider,
+  chain: ChainName,
+  transactions: AnnotatedEV5Transaction[],
+  dryRun = false
+): Promise<ConfigTransaction[]> {
+  const results: ConfigTransaction[] = [];
+  for (const { annotation, ...tx } of transactions) {
+    const result: ConfigTransaction = {
+      annotation,
+      to: tx.to,
+      data: tx.data?.toString(),
+      value: tx.value?.toString(),
+    };
+    if (!dryRun) {
+      logger.info(`Sending transaction on ${chain}: ${annotation}`);
+      const receipt = await multiProvider.sendTransaction(chain, tx);
+      result.transactionHash = receipt.transactionHash;
+    }
+    results.push(result);
+  }
+  return results;
+}
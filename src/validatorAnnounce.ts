@@ -0,0 +1,283 @@
+import { ValidatorAnnounce__factory } from '@hyperlane-xyz/core';
+import { BaseRegistry } from '@hyperlane-xyz/registry';
+import { ChainName, MultiProvider } from '@hyperlane-xyz/sdk';
+import { Address } from '@hyperlane-xyz/utils';
+import { ContractReceipt, ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { AgentInfo, getAgentMounts, listAgents } from './agents.js';
+import logger from './logger.js';
+import {
+  getValidatorSignaturesDir,
+  getValidatorSignaturesMount,
+  VALIDATOR_SIGNATURES_MOUNT,
+} from './RunValidator.js';
+
+// Location local validators announced before checkpoints moved to one
+// directory per chain, no relayer mounts it anymore
+const LEGACY_STORAGE_LOCATION = `file://${VALIDATOR_SIGNATURES_MOUNT}`;
+
+export type AnnouncementIssueCode =
+  | 'NOT_ANNOUNCED'
+  | 'LOCATION_MISMATCH'
+  | 'NO_CHECKPOINTS'
+  | 'RELAYER_CANNOT_READ';
+
+export interface AnnouncementIssue {
+  code: AnnouncementIssueCode;
+  message: string;
+}
+
+export interface ValidatorAnnouncement {
+  chain: ChainName;
+  validator: Address;
+  validatorAnnounce: Address;
+  // Every location announced, relayers read from the latest one
+  storageLocations: string[];
+  // Location the validator run by this server announces, and the host
+  // directory its local checkpoints are written to
+  expectedStorageLocation: string;
+  signaturesDir: string;
+  // Relayer containers relaying from the chain and whether the latest
+  // location is readable for them
+  relayers: { containerId: string; canRead: boolean }[];
+  issues: AnnouncementIssue[];
+}
+
+/**
+ * Location the validator of the chain run by this server announces: the one
+ * recorded on its container, or the local signatures directory as mounted in
+ * agent containers
+ */
+export async function getExpectedStorageLocation(
+  chain: ChainName
+): Promise<string> {
+  const validators = await listAgents({ role: 'validator', chain });
+  const latest = validators
+    .filter((validator) => validator.storageLocation)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  return (
+    latest?.storageLocation ?? `file://${getValidatorSignaturesMount(chain)}`
+  );
+}
+
+async function getValidatorAnnounce(
+  chain: ChainName,
+  registry: BaseRegistry,
+  multiProvider: MultiProvider
+) {
+  const address = (await registry.getChainAddresses(chain))?.validatorAnnounce;
+  if (!address) {
+    throw new Error(`No ValidatorAnnounce address found for ${chain}`);
+  }
+  return ValidatorAnnounce__factory.connect(
+    address,
+    multiProvider.getSignerOrProvider(chain)
+  );
+}
+
+/**
+ * Relayers read file:// locations from their own filesystem, so one can only
+ * read the local checkpoints if the validator's signatures directory is
+ * mounted at the announced path
+ */
+async function canRelayerRead(
+  relayer: AgentInfo,
+  storageLocation: string,
+  signaturesDir: string
+): Promise<boolean> {
+  if (!storageLocation.startsWith('file://')) return true;
+
+  const locationPath = storageLocation.slice('file://'.length);
+  return (await getAgentMounts(relayer)).some(
+    ({ source, destination }) =>
+      path.resolve(destination) === path.resolve(locationPath) &&
+      path.resolve(source) === signaturesDir
+  );
+}
+
+/**
+ * Reads the storage locations a validator announced on the chain's
+ * ValidatorAnnounce and checks them against the signatures directory
+ * validators run by this server write to and the relayers that read it
+ */
+export async function getValidatorAnnouncement({
+  chain,
+  validator,
+  registry,
+  multiProvider,
+}: {
+  chain: ChainName;
+  validator: Address;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+}): Promise<ValidatorAnnouncement> {
+  const validatorAnnounce = await getValidatorAnnounce(
+    chain,
+    registry,
+    multiProvider
+  );
+  const [storageLocations] =
+    await validatorAnnounce.getAnnouncedStorageLocations([validator]);
+
+  const announcement: ValidatorAnnouncement = {
+    chain,
+    validator,
+    validatorAnnounce: validatorAnnounce.address,
+    storageLocations,
+    expectedStorageLocation: await getExpectedStorageLocation(chain),
+    signaturesDir: getValidatorSignaturesDir(chain),
+    relayers: [],
+    issues: [],
+  };
+
+  const latestLocation = storageLocations[storageLocations.length - 1];
+  if (!latestLocation) {
+    announcement.issues.push({
+      code: 'NOT_ANNOUNCED',
+      message: `Validator ${validator} has not announced a storage location on ${chain}, relayers can't find its checkpoints`,
+    });
+    return announcement;
+  }
+
+  if (latestLocation !== announcement.expectedStorageLocation) {
+    announcement.issues.push({
+      code: 'LOCATION_MISMATCH',
+      message: `Validator ${validator} announced ${latestLocation} on ${chain}, but its checkpoints are written to ${announcement.expectedStorageLocation}, announce it again with announce-validator`,
+    });
+  }
+
+  if (
+    latestLocation.startsWith('file://') &&
+    !fs.existsSync(path.join(announcement.signaturesDir, 'index.json'))
+  ) {
+    announcement.issues.push({
+      code: 'NO_CHECKPOINTS',
+      message: `No checkpoints signed in ${announcement.signaturesDir} yet`,
+    });
+  }
+
+  const relayers = (await listAgents({ role: 'relayer', chain })).filter(
+    (relayer) => relayer.state === 'running'
+  );
+  announcement.relayers = await Promise.all(
+    relayers.map(async (relayer) => ({
+      containerId: relayer.containerId,
+      canRead: await canRelayerRead(
+        relayer,
+        latestLocation,
+        announcement.signaturesDir
+      ),
+    }))
+  );
+  for (const { containerId, canRead } of announcement.relayers) {
+    if (!canRead) {
+      announcement.issues.push({
+        code: 'RELAYER_CANNOT_READ',
+        message: `Relayer ${containerId} does not mount ${announcement.signaturesDir} at ${latestLocation}, run a relayer with ${chain} in validatorChains`,
+      });
+    }
+  }
+
+  return announcement;
+}
+
+/**
+ * Announces the storage location of the validator's checkpoints on the
+ * chain's ValidatorAnnounce, signing the announcement with the validator key.
+ * Nothing is sent when the location is already announced.
+ */
+export async function announceValidator({
+  chain,
+  validator,
+  storageLocation,
+  registry,
+  multiProvider,
+}: {
+  chain: ChainName;
+  validator: ethers.Wallet;
+  storageLocation?: string;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+}): Promise<[ValidatorAnnouncement, ContractReceipt?]> {
+  const validatorAnnounce = await getValidatorAnnounce(
+    chain,
+    registry,
+    multiProvider
+  );
+  storageLocation ??= await getExpectedStorageLocation(chain);
+  const [storageLocations] =
+    await validatorAnnounce.getAnnouncedStorageLocations([validator.address]);
+
+  let receipt: ContractReceipt | undefined;
+  if (storageLocations.includes(storageLocation)) {
+    logger.info(
+      `Validator ${validator.address} already announced ${storageLocation} on ${chain}`
+    );
+  } else {
+    // The contract returns the digest already prefixed like an eth_sign
+    // message, so it is signed as is
+    const digest = await validatorAnnounce.getAnnouncementDigest(
+      storageLocation
+    );
+    const signature = ethers.utils.joinSignature(
+      validator._signingKey().signDigest(digest)
+    );
+
+    logger.info(
+      `Announcing ${storageLocation} for validator ${validator.address} on ${chain}`
+    );
+    receipt = await multiProvider.handleTx(
+      chain,
+      validatorAnnounce.announce(
+        validator.address,
+        storageLocation,
+        signature,
+        multiProvider.getTransactionOverrides(chain)
+      )
+    );
+  }
+
+  const announcement = await getValidatorAnnouncement({
+    chain,
+    validator: validator.address,
+    registry,
+    multiProvider,
+  });
+  return [announcement, receipt];
+}
+
+/**
+ * Announces the location of the local validator again when the latest one it
+ * announced on the chain is the legacy shared signatures directory. Other
+ * announcements are only read.
+ */
+export async function reannounceLegacyValidator({
+  chain,
+  validator,
+  registry,
+  multiProvider,
+}: {
+  chain: ChainName;
+  validator: ethers.Wallet;
+  registry: BaseRegistry;
+  multiProvider: MultiProvider;
+}): Promise<[ValidatorAnnouncement, ContractReceipt?]> {
+  const announcement = await getValidatorAnnouncement({
+    chain,
+    validator: validator.address,
+    registry,
+    multiProvider,
+  });
+  const { storageLocations } = announcement;
+  if (
+    storageLocations[storageLocations.length - 1] !== LEGACY_STORAGE_LOCATION
+  ) {
+    return [announcement];
+  }
+
+  logger.info(
+    `Validator ${validator.address} announced ${LEGACY_STORAGE_LOCATION} on ${chain}, announcing its current location`
+  );
+  return announceValidator({ chain, validator, registry, multiProvider });
+}
@@ -0,0 +1,383 @@
+import { MailboxClient__factory } from '@hyperlane-xyz/core';
+import {
+  AnnotatedEV5Transaction,
+  ChainMap,
+  ChainName,
+  DestinationGas,
+  EvmERC20WarpModule,
+  EvmERC20WarpRouteReader,
+  EvmHookModule,
+  EvmIsmModule,
+  HypTokenRouterConfig,
+  MultiProvider,
+  ProxyFactoryFactoriesAddresses,
+  ProxyFactoryFactoriesSchema,
+  RemoteRouters,
+  WarpRouteDeployConfig,
+  WarpRouteDeployConfigSchema,
+} from '@hyperlane-xyz/sdk';
+import {
+  Address,
+  eqAddress,
+  objMap,
+  promiseObjAll,
+} from '@hyperlane-xyz/utils';
+import { ethers } from 'ethers';
+import { LocalRegistry } from './localRegistry.js';
+import logger from './logger.js';
+import {
+  ConfigDifference,
+  ConfigTransaction,
+  diffConfig,
+  sendTransactions,
+} from './utils.js';
+
+// Router fields EvmERC20WarpRouteReader derives, deploy-only fields like the
+// initial supply or scale can't be compared with a deployed router
+const DERIVED_ROUTER_FIELDS = new Set<string>([
+  'type',
+  'mailbox',
+  'owner',
+  'interchainSecurityModule',
+  'hook',
+  'proxyAdmin',
+  'name',
+  'symbol',
+  'decimals',
+  'token',
+  'collateralChainName',
+  'remoteRouters',
+  'destinationGas',
+]);
+
+async function getWarpRouters(
+  routeId: string,
+  registry: LocalRegistry
+): Promise<ChainMap<Address>> {
+  const warpCoreConfig = await registry.getWarpRoute(routeId);
+  if (!warpCoreConfig) {
+    throw new Error(`No warp route found with ID ${routeId}`);
+  }
+
+  return Object.fromEntries(
+    warpCoreConfig.tokens
+      .filter((token) => token.addressOrDenom)
+      .map((token) => [token.chainName, token.addressOrDenom!])
+  );
+}
+
+async function getExpectedConfig(
+  routeId: string,
+  registry: LocalRegistry,
+  expectedConfig?: unknown
+): Promise<WarpRouteDeployConfig> {
+  const config =
+    expectedConfig ?? (await registry.getWarpDeployConfig(routeId));
+  if (!config) {
+    throw new Error(
+      `No deploy config stored for warp route ${routeId}, pass the expected config explicitly`
+    );
+  }
+
+  const result = WarpRouteDeployConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new Error(`Invalid warp route config: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+function getDeployedAddress(config: unknown): Address {
+  if (typeof config === 'string') return config;
+  return (
+    (config as { address?: Address } | undefined)?.address ??
+    ethers.constants.AddressZero
+  );
+}
+
+function getConfigType(config: unknown): string {
+  return (config as { type?: string }).type ?? 'custom';
+}
+
+/**
+ * Builds the transactions that bring a deployed router to the expected config.
+ * EvmERC20WarpModule can only update an ISM or hook the router already has,
+ * so ones given by address or missing on the router are deployed and set
+ * here. In dry-run mode nothing is deployed and ISMs or hooks that would be
+ * deployed or updated are reported by annotation only, without a transaction.
+ */
+export async function createWarpRouterUpdateTxs({
+  chain,
+  router,
+  multiProvider,
+  proxyFactoryFactories,
+  actual,
+  expected,
+  dryRun = false,
+}: {
+  chain: ChainName;
+  router: Address;
+  multiProvider: MultiProvider;
+  proxyFactoryFactories: ProxyFactoryFactoriesAddresses;
+  actual: HypTokenRouterConfig;
+  expected: HypTokenRouterConfig;
+  dryRun?: boolean;
+}): Promise<AnnotatedEV5Transaction[]> {
+  const client = MailboxClient__factory.connect(
+    router,
+    multiProvider.getProvider(chain)
+  );
+  const transactions: AnnotatedEV5Transaction[] = [];
+  const moduleConfig: HypTokenRouterConfig = { ...expected };
+
+  const expectedIsm = expected.interchainSecurityModule;
+  if (
+    expectedIsm &&
+    (typeof expectedIsm === 'string' || !actual.interchainSecurityModule)
+  ) {
+    moduleConfig.interchainSecurityModule = undefined;
+    let ism = typeof expectedIsm === 'string' ? expectedIsm : undefined;
+    if (typeof expectedIsm !== 'string' && !dryRun) {
+      const ismModule = await EvmIsmModule.create({
+        chain,
+        config: expectedIsm,
+        proxyFactoryFactories,
+        mailbox: expected.mailbox,
+        multiProvider,
+      });
+      ism = ismModule.serialize().deployedIsm;
+    }
+
+    if (!ism) {
+      transactions.push({
+        annotation: `Deploying a ${getConfigType(
+          expectedIsm
+        )} ISM for the router`,
+      });
+    } else if (
+      !eqAddress(ism, getDeployedAddress(actual.interchainSecurityModule))
+    ) {
+      transactions.push({
+        annotation: `Setting ISM for Warp Route to ${ism}`,
+        ...(await client.populateTransaction.setInterchainSecurityModule(ism)),
+      });
+    }
+  }
+
+  const expectedHook = expected.hook;
+  if (expectedHook && (typeof expectedHook === 'string' || !actual.hook)) {
+    moduleConfig.hook = undefined;
+    let hook = typeof expectedHook === 'string' ? expectedHook : undefined;
+    if (typeof expectedHook !== 'string' && !dryRun) {
+      const proxyAdmin = actual.proxyAdmin?.address;
+      if (!proxyAdmin) {
+        throw new Error(`No proxy admin found for the router on ${chain}`);
+      }
+      const hookModule = await EvmHookModule.create({
+        chain,
+        config: expectedHook,
+        proxyFactoryFactories,
+        coreAddresses: { mailbox: expected.mailbox, proxyAdmin },
+        multiProvider,
+      });
+      hook = hookModule.serialize().deployedHook;
+    }
+
+    if (!hook) {
+      transactions.push({
+        annotation: `Deploying a ${getConfigType(
+          expectedHook
+        )} hook for the router`,
+      });
+    } else if (!eqAddress(hook, getDeployedAddress(actual.hook))) {
+      transactions.push({
+        annotation: `Setting Hook for Warp Route to ${hook}`,
+        ...(await client.populateTransaction.setHook(hook)),
+      });
+    }
+  }
+
+  const warpModule = new EvmERC20WarpModule(multiProvider, {
+    chain,
+    config: actual,
+    addresses: { ...proxyFactoryFactories, deployedTokenRoute: router },
+  });
+
+  // Updating an ISM or hook may deploy a new one, so in dry-run mode they are
+  // left out of the update and only listed
+  if (dryRun) {
+    for (const key of ['interchainSecurityModule', 'hook'] as const) {
+      const config = moduleConfig[key];
+      if (config && diffConfig(actual[key], config, key).length > 0) {
+        transactions.push({
+          annotation: `Updating or redeploying the router ${key} (${getConfigType(
+            config
+          )})`,
+        });
+      }
+      moduleConfig[key] = undefined;
+    }
+  }
+  transactions.push(...(await warpModule.update(moduleConfig)));
+
+  return transactions;
+}
+
+/**
+ * Builds the transactions that enroll new remote routers on a deployed router
+ * and set their destination gas, the rest of its config is left as it is.
+ */
+export function createWarpRouterEnrollTxs({
+  chain,
+  router,
+  multiProvider,
+  proxyFactoryFactories,
+  actual,
+  remoteRouters,
+  destinationGas,
+}: {
+  chain: ChainName;
+  router: Address;
+  multiProvider: MultiProvider;
+  proxyFactoryFactories: ProxyFactoryFactoriesAddresses;
+  actual: HypTokenRouterConfig;
+  remoteRouters: RemoteRouters;
+  destinationGas: DestinationGas;
+}): AnnotatedEV5Transaction[] {
+  const warpModule = new EvmERC20WarpModule(multiProvider, {
+    chain,
+    config: actual,
+    addresses: { ...proxyFactoryFactories, deployedTokenRoute: router },
+  });
+
+  // setDestinationGas only writes the domains it is given, so the gas of the
+  // routers already enrolled is not sent again
+  return [
+    ...warpModule.createEnrollRemoteRoutersUpdateTxs(actual, {
+      ...actual,
+      remoteRouters: { ...actual.remoteRouters, ...remoteRouters },
+    }),
+    ...warpModule.createSetDestinationGasUpdateTxs(
+      { ...actual, destinationGas: {} },
+      { ...actual, destinationGas }
+    ),
+  ];
+}
+
+export async function readWarpRoute({
+  routeId,
+  registry,
+  multiProvider,
+}: {
+  routeId: string;
+  registry: LocalRegistry;
+  multiProvider: MultiProvider;
+}): Promise<WarpRouteDeployConfig> {
+  const routers = await getWarpRouters(routeId, registry);
+  return promiseObjAll(
+    objMap(routers, (chain, router) =>
+      new EvmERC20WarpRouteReader(multiProvider, chain).deriveWarpRouteConfig(
+        router
+      )
+    )
+  );
+}
+
+export async function checkWarpRoute({
+  routeId,
+  registry,
+  multiProvider,
+  expectedConfig,
+}: {
+  routeId: string;
+  registry: LocalRegistry;
+  multiProvider: MultiProvider;
+  expectedConfig?: unknown;
+}): Promise<[boolean, ConfigDifference[], WarpRouteDeployConfig]> {
+  const expected = await getExpectedConfig(routeId, registry, expectedConfig);
+  const actual = await readWarpRoute({ routeId, registry, multiProvider });
+
+  const differences = Object.entries(expected).flatMap(([chain, config]) => {
+    if (!actual[chain]) {
+      return [{ path: chain, actual: undefined, expected: config }];
+    }
+    const derivedFields = Object.fromEntries(
+      Object.entries(config).filter(([key]) => DERIVED_ROUTER_FIELDS.has(key))
+    );
+    return diffConfig(actual[chain], derivedFields, chain);
+  });
+
+  logger.info(
+    `Warp route ${routeId} differences: ${JSON.stringify(differences, null, 2)}`
+  );
+
+  return [differences.length === 0, differences, actual];
+}
+
+/**
+ * Brings the routers of a deployed warp route to the expected config, by
+ * default the stored deploy config. A new expected config is stored once it
+ * has been applied.
+ */
+export async function applyWarpRoute({
+  routeId,
+  registry,
+  multiProvider,
+  expectedConfig,
+  dryRun = false,
+}: {
+  routeId: string;
+  registry: LocalRegistry;
+  multiProvider: MultiProvider;
+  expectedConfig?: unknown;
+  dryRun?: boolean;
+}): Promise<[ChainMap<ConfigTransaction[]>, ConfigDifference[]]> {
+  const expected = await getExpectedConfig(routeId, registry, expectedConfig);
+  const [matches, differences, actual] = await checkWarpRoute({
+    routeId,
+    registry,
+    multiProvider,
+    expectedConfig: expected,
+  });
+  if (matches) {
+    logger.info(`Warp route ${routeId} is up to date`);
+    return [{}, differences];
+  }
+
+  const routers = await getWarpRouters(routeId, registry);
+  const registryAddresses = await registry.getAddresses();
+  const results: ChainMap<ConfigTransaction[]> = {};
+
+  for (const [chain, config] of Object.entries(expected)) {
+    const changed = differences.some(
+      ({ path }) => path === chain || path.startsWith(`${chain}.`)
+    );
+    if (!changed) continue;
+    if (!routers[chain]) {
+      throw new Error(`Warp route ${routeId} has no router on ${chain}`);
+    }
+
+    const transactions = await createWarpRouterUpdateTxs({
+      chain,
+      router: routers[chain],
+      multiProvider,
+      proxyFactoryFactories: ProxyFactoryFactoriesSchema.parse(
+        registryAddresses[chain]
+      ),
+      actual: actual[chain],
+      expected: config,
+      dryRun,
+    });
+    results[chain] = await sendTransactions(
+      multiProvider,
+      chain,
+      transactions,
+      dryRun
+    );
+  }
+
+  if (!dryRun && expectedConfig) {
+    await registry.addWarpRouteConfig(expected, routeId);
+  }
+
+  return [results, differences];
+}
@@ -1,55 +1,179 @@
+import {
+  ERC20__factory,
+  ERC721Enumerable__factory,
+  IERC4626__factory,
+  IXERC20Lockbox__factory,
+} from '@hyperlane-xyz/core';
 import { AddWarpRouteOptions, BaseRegistry } from '@hyperlane-xyz/registry';
 import {
   ChainMap,
   ChainMetadata,
   ChainName,
   DeployedOwnableConfig,
+  EvmERC20WarpModule,
+  EvmERC20WarpRouteReader,
+  EvmHookModule,
+  EvmIsmModule,
   getTokenConnectionId,
   HypERC20Deployer,
-  HypERC20Factories,
   HypERC721Deployer,
   HypERC721Factories,
-  HyperlaneContractsMap,
+  HookConfig,
   isCollateralTokenConfig,
   IsmConfig,
   isTokenMetadata,
   isXERC20TokenConfig,
   MultiProvider,
+  ProxyFactoryFactoriesSchema,
   TOKEN_TYPE_TO_STANDARD,
-  TokenFactories,
+  TokenMetadata,
   TokenType,
   WarpCoreConfig,
   WarpRouteDeployConfig,
   WarpRouteDeployConfigSchema,
 } from '@hyperlane-xyz/sdk';
-import { assert, objMap, ProtocolType } from '@hyperlane-xyz/utils';
-import fs from 'fs';
-import { stringify } from 'yaml';
-import { TYPE_CHOICES, WarpRouteDeployConfigMailboxRequired } from './types.js';
+import {
+  Address,
+  assert,
+  objMap,
+  pick,
+  ProtocolType,
+} from '@hyperlane-xyz/utils';
+import { createHookConfig, createIsmConfig } from './config.js';
+import {
+  DEFAULT_WARP_ROUTE_GAS_OVERHEAD,
+  WARP_ROUTE_GAS_OVERHEAD,
+} from './consts.js';
+import { LocalRegistry } from './localRegistry.js';
+import logger from './logger.js';
+import {
+  TYPE_CHOICES,
+  WarpChainOptions,
+  WarpRouteDeployConfigMailboxRequired,
+} from './types.js';
+import { sendTransactions } from './utils.js';
+import {
+  createWarpRouterEnrollTxs,
+  createWarpRouterUpdateTxs,
+} from './warpModule.js';
 
 function restrictChoices(typeChoices: TokenType[]) {
   return TYPE_CHOICES.filter((choice) => typeChoices.includes(choice.name));
 }
 
+/**
+ * Checks that the existing token a collateral route wraps is a contract of the
+ * expected kind and reads its metadata. Vaults and lockboxes are described by
+ * their underlying token, like HypERC20Deployer.deriveTokenMetadata does.
+ */
+async function getCollateralToken(
+  multiProvider: MultiProvider,
+  chain: ChainName,
+  type: TokenType,
+  tokens: ChainMap<Address>
+): Promise<{ token: Address } & Partial<TokenMetadata>> {
+  const token = tokens[chain];
+  if (!token) {
+    throw new Error(
+      `An existing token address is required on ${chain} for a ${type} token`
+    );
+  }
+
+  const provider = multiProvider.getProvider(chain);
+  if ((await provider.getCode(token)) === '0x') {
+    throw new Error(
+      `No contract deployed at token address ${token} on ${chain}`
+    );
+  }
+
+  try {
+    if (type === TokenType.collateralUri) {
+      const erc721 = ERC721Enumerable__factory.connect(token, provider);
+      const [name, symbol] = await Promise.all([
+        erc721.name(),
+        erc721.symbol(),
+      ]);
+      logger.info(`Found ERC721 ${name} (${symbol}) at ${token} on ${chain}`);
+      return { token };
+    }
+
+    let underlying = token;
+    if (type === TokenType.XERC20Lockbox) {
+      underlying = await IXERC20Lockbox__factory.connect(
+        token,
+        provider
+      ).callStatic.ERC20();
+    } else if (type === TokenType.collateralVault) {
+      underlying = await IERC4626__factory.connect(
+        token,
+        provider
+      ).callStatic.asset();
+    } else if (type === TokenType.collateralVaultRebase) {
+      // Rebasing routes keep the vault share metadata, only check it is a vault
+      await IERC4626__factory.connect(token, provider).callStatic.asset();
+    }
+
+    const erc20 = ERC20__factory.connect(underlying, provider);
+    const [name, symbol, decimals] = await Promise.all([
+      erc20.name(),
+      erc20.symbol(),
+      erc20.decimals(),
+    ]);
+    logger.info(
+      `Found ${type} token ${name} (${symbol}, ${decimals} decimals) at ${token} on ${chain}`
+    );
+
+    return { token, name, symbol, decimals, totalSupply: 0 };
+  } catch (e) {
+    throw new Error(
+      `Token address ${token} on ${chain} is not a valid ${type} token: ${e}`
+    );
+  }
+}
+
 export async function createWarpRouteDeployConfig({
   warpChains,
   tokenTypes,
-  signerAddress: owner,
+  tokens = {},
+  chainOptions = {},
+  existingConfig = {},
+  signerAddress,
   registry,
+  multiProvider,
   outPath,
 }: {
   warpChains: ChainName[];
   tokenTypes: TokenType[];
+  tokens?: ChainMap<Address>;
+  chainOptions?: ChainMap<WarpChainOptions>;
+  // Config of an already deployed route the chains are added to
+  existingConfig?: WarpRouteDeployConfig;
   signerAddress: string;
   registry: BaseRegistry;
+  multiProvider: MultiProvider;
   outPath: string;
 }): Promise<WarpRouteDeployConfig> {
   //   logBlue("Creating a new warp route deployment config...");
-  if (warpChains.length < 2 || tokenTypes.length < 2) {
+  const existingChains = Object.keys(existingConfig);
+  if (
+    warpChains.length === 0 ||
+    warpChains.length + existingChains.length < 2
+  ) {
     throw new Error(
       'At least two warp chains and two token types are required.'
     );
   }
+  const duplicateChains = warpChains.filter(
+    (chain, i) =>
+      existingChains.includes(chain) || warpChains.indexOf(chain) !== i
+  );
+  if (duplicateChains.length > 0) {
+    throw new Error(
+      `Warp chains must be listed once and not be part of the route yet: ${duplicateChains.join(
+        ', '
+      )}`
+    );
+  }
   if (warpChains.length !== tokenTypes.length) {
     throw new Error(
       'The number of warp chains and token types must be the same.'
@@ -62,9 +186,26 @@ export async function createWarpRouteDeployConfig({
   for (const chain of warpChains) {
     // logBlue(`${chain}: Configuring warp route...`);
 
-    const proxyAdmin: DeployedOwnableConfig | undefined = undefined;
-    let interchainSecurityModule: IsmConfig | undefined = undefined;
+    const options = chainOptions[chain] ?? {};
+    const owner = options.owner ?? signerAddress;
+    const proxyAdmin: DeployedOwnableConfig | undefined = options.proxyAdmin;
+    const interchainSecurityModule: IsmConfig | undefined =
+      typeof options.interchainSecurityModule === 'object'
+        ? await createIsmConfig(options.interchainSecurityModule, owner)
+        : options.interchainSecurityModule;
+    const hook: HookConfig | undefined =
+      typeof options.hook === 'object'
+        ? await createHookConfig(options.hook, owner)
+        : options.hook;
     const type = tokenTypes[index];
+    const isMintable =
+      type === TokenType.synthetic || type === TokenType.fastSynthetic;
+
+    if (options.initialSupply && !isMintable) {
+      throw new Error(
+        `initialSupply is only supported for synthetic tokens, ${chain} is ${type}`
+      );
+    }
 
     const isNft =
       type === TokenType.syntheticUri || type === TokenType.collateralUri;
@@ -77,16 +218,17 @@ export async function createWarpRouteDeployConfig({
       case TokenType.XERC20Lockbox:
       case TokenType.collateralFiat:
       case TokenType.collateralUri:
-        // result[chain] = {
-        //   type,
-        //   owner,
-        //   proxyAdmin,
-        //   isNft,
-        //   interchainSecurityModule,
-        //   token: await input({
-        //     message: `Enter the existing token address on chain ${chain}`,
-        //   }),
-        // };
+      case TokenType.collateralVault:
+      case TokenType.fastCollateral:
+        result[chain] = {
+          type,
+          owner,
+          proxyAdmin,
+          isNft,
+          interchainSecurityModule,
+          mailbox,
+          ...(await getCollateralToken(multiProvider, chain, type, tokens)),
+        };
         break;
       case TokenType.syntheticRebase:
         result[chain] = {
@@ -104,33 +246,6 @@ export async function createWarpRouteDeployConfig({
         ]);
         break;
       case TokenType.collateralVaultRebase:
-        // result[chain] = {
-        //   type,
-        //   owner,
-        //   proxyAdmin,
-        //   isNft,
-        //   interchainSecurityModule,
-        //   token: await input({
-        //     message: `Enter the ERC-4626 vault address on chain ${chain}`,
-        //   }),
-        // };
-
-        // typeChoices = restrictChoices([TokenType.syntheticRebase]);
-        break;
-      case TokenType.collateralVault:
-        // result[chain] = {
-        //   type,
-        //   owner,
-        //   proxyAdmin,
-        //   isNft,
-        //   interchainSecurityModule,
-        //   token: await input({
-        //     message: `Enter the ERC-4626 vault address on chain ${chain}`,
-        //   }),
-        // };
-        break;
-      case TokenType.synthetic:
-      case TokenType.syntheticUri:
         result[chain] = {
           type,
           owner,
@@ -138,27 +253,30 @@ export async function createWarpRouteDeployConfig({
           isNft,
           interchainSecurityModule,
           mailbox,
+          ...(await getCollateralToken(multiProvider, chain, type, tokens)),
         };
+
+        typeChoices = restrictChoices([TokenType.syntheticRebase]);
         break;
-      case TokenType.fastSynthetic:
+      case TokenType.synthetic:
+      case TokenType.syntheticUri:
         result[chain] = {
           type,
           owner,
           proxyAdmin,
           isNft,
           interchainSecurityModule,
-          mailbox: '',
+          mailbox,
         };
         break;
-      case TokenType.fastCollateral:
+      case TokenType.fastSynthetic:
         result[chain] = {
           type,
           owner,
           proxyAdmin,
           isNft,
           interchainSecurityModule,
-          token: '',
-          mailbox,
+          mailbox: '',
         };
         break;
       case TokenType.native:
@@ -173,11 +291,31 @@ export async function createWarpRouteDeployConfig({
         };
     }
 
+    // Explicit options take precedence over metadata read from collateral
+    // tokens; the schema parse below rejects fields a token type can't take
+    Object.assign(
+      result[chain],
+      Object.fromEntries(
+        Object.entries({
+          hook,
+          name: options.name,
+          symbol: options.symbol,
+          decimals: options.decimals,
+          scale: options.scale,
+          // Nothing is minted on deploy unless an initial supply is given
+          totalSupply: isMintable ? options.initialSupply ?? 0 : undefined,
+        }).filter(([, value]) => value !== undefined)
+      )
+    );
+
     index++;
   }
 
   try {
-    const warpRouteDeployConfig = WarpRouteDeployConfigSchema.parse(result);
+    const warpRouteDeployConfig = WarpRouteDeployConfigSchema.parse({
+      ...existingConfig,
+      ...result,
+    });
     // logBlue(`Warp Route config is valid, writing to file ${outPath}:\n`);
     // log(indentYamlOrJson(yamlStringify(warpRouteDeployConfig, null, 2), 4));
     // writeYaml(outPath, warpRouteDeployConfig);
@@ -192,8 +330,13 @@ export async function createWarpRouteDeployConfig({
   }
 }
 
+/**
+ * Deploys the ISMs and hooks given as configs rather than addresses, since the
+ * token deployer only sets existing contracts on the routers.
+ */
 export async function resolveWarpIsmAndHook(
   warpConfig: WarpRouteDeployConfigMailboxRequired,
+  multiProvider: MultiProvider,
   registry: BaseRegistry
 ): Promise<WarpRouteDeployConfigMailboxRequired> {
   return promiseObjAll(
@@ -205,40 +348,206 @@ export async function resolveWarpIsmAndHook(
         throw `Registry factory addresses not found for ${chain.toString()}.`;
       }
 
+      const proxyFactoryFactories =
+        ProxyFactoryFactoriesSchema.parse(chainAddresses);
+
+      if (
+        config.interchainSecurityModule &&
+        typeof config.interchainSecurityModule !== 'string'
+      ) {
+        logger.info(
+          `Deploying ${config.interchainSecurityModule.type} ISM for the warp route on ${chain}`
+        );
+        const ismModule = await EvmIsmModule.create({
+          chain,
+          config: config.interchainSecurityModule,
+          proxyFactoryFactories,
+          mailbox: config.mailbox,
+          multiProvider,
+        });
+        config.interchainSecurityModule = ismModule.serialize().deployedIsm;
+      }
+
+      if (config.hook && typeof config.hook !== 'string') {
+        logger.info(
+          `Deploying ${config.hook.type} hook for the warp route on ${chain}`
+        );
+        const hookModule = await EvmHookModule.create({
+          chain,
+          config: config.hook,
+          proxyFactoryFactories,
+          coreAddresses: {
+            mailbox: config.mailbox,
+            proxyAdmin: chainAddresses.proxyAdmin,
+          },
+          multiProvider,
+        });
+        config.hook = hookModule.serialize().deployedHook;
+      }
+
       return config;
     })
   );
 }
 
+/**
+ * Deploys the routers of a warp route one chain at a time with
+ * EvmERC20WarpModule, then enrolls them with each other and hands them over
+ * to their owners. NFT routes still go through HypERC721Deployer. Returns the
+ * router per chain and the deploy config of the deployed route.
+ */
 export async function executeDeploy(
   config: WarpRouteDeployConfigMailboxRequired,
   multiProvider: MultiProvider,
-  registry: BaseRegistry
-): Promise<HyperlaneContractsMap<HypERC20Factories | HypERC721Factories>> {
+  registry: BaseRegistry,
+  // Routers of chains that are already deployed, only enrolled with the new ones
+  existingRouters: ChainMap<Address> = {}
+): Promise<[ChainMap<Address>, WarpRouteDeployConfigMailboxRequired]> {
   //   logBlue("🚀 All systems ready, captain! Beginning deployment...");
-  const deployer = config.isNft
-    ? new HypERC721Deployer(multiProvider)
-    : new HypERC20Deployer(multiProvider); // TODO: replace with EvmERC20WarpModule
+  const isNft = Object.values(config).some((chainConfig) => chainConfig.isNft);
+  const newConfig: WarpRouteDeployConfigMailboxRequired = Object.fromEntries(
+    Object.entries(config).filter(([chain]) => !existingRouters[chain])
+  );
 
   // For each chain in WarpRouteConfig, deploy each Ism Factory, if it's not in the registry
   // Then return a modified config with the ism and/or hook address as a string
-  const modifiedConfig = await resolveWarpIsmAndHook(config, registry);
+  const modifiedConfig = {
+    ...config,
+    ...(await resolveWarpIsmAndHook(newConfig, multiProvider, registry)),
+  };
 
-  const deployedContracts = await deployer.deploy(modifiedConfig);
+  if (isNft) {
+    if (Object.keys(existingRouters).length > 0) {
+      throw new Error('Extending NFT warp routes is not supported');
+    }
+    const deployedContracts = await new HypERC721Deployer(multiProvider).deploy(
+      modifiedConfig
+    );
+    return [
+      objMap(
+        deployedContracts,
+        (chain, contracts) =>
+          contracts[modifiedConfig[chain].type as keyof HypERC721Factories]
+            .address
+      ),
+      modifiedConfig,
+    ];
+  }
+
+  // Routers are deployed one at a time, so the token metadata is derived for
+  // the whole route up front like HypERC20Deployer.deploy does
+  const tokenMetadata = await HypERC20Deployer.deriveTokenMetadata(
+    multiProvider,
+    modifiedConfig
+  );
+  const registryAddresses = await registry.getAddresses();
+  const routers: ChainMap<Address> = { ...existingRouters };
+
+  for (const chain of Object.keys(newConfig)) {
+    const chainConfig = modifiedConfig[chain];
+    logger.info(`Deploying ${chainConfig.type} warp router on ${chain}`);
+    // The signer keeps ownership until the routers are enrolled below
+    const warpModule = await EvmERC20WarpModule.create({
+      chain,
+      config: {
+        ...tokenMetadata,
+        ...chainConfig,
+        owner: await multiProvider.getSignerAddress(chain),
+      },
+      multiProvider,
+      proxyFactoryFactories: ProxyFactoryFactoriesSchema.parse(
+        registryAddresses[chain]
+      ),
+    });
+    routers[chain] = warpModule.serialize().deployedTokenRoute;
+  }
+
+  const deployedConfig: WarpRouteDeployConfigMailboxRequired = {};
+  for (const [chain, chainConfig] of Object.entries(modifiedConfig)) {
+    const remotes = Object.keys(routers).filter((remote) => remote !== chain);
+    const actual = await new EvmERC20WarpRouteReader(
+      multiProvider,
+      chain
+    ).deriveWarpRouteConfig(routers[chain]);
+
+    deployedConfig[chain] = {
+      ...tokenMetadata,
+      ...chainConfig,
+      proxyAdmin: {
+        address: actual.proxyAdmin!.address,
+        owner: chainConfig.proxyAdmin?.owner ?? chainConfig.owner,
+      },
+      remoteRouters: Object.fromEntries(
+        remotes.map((remote) => [
+          multiProvider.getDomainId(remote).toString(),
+          { address: routers[remote] },
+        ])
+      ),
+      // Gas already set on existing routers is kept
+      destinationGas: Object.fromEntries(
+        remotes.map((remote) => {
+          const domain = multiProvider.getDomainId(remote).toString();
+          return [
+            domain,
+            actual.destinationGas?.[domain] ??
+              (
+                WARP_ROUTE_GAS_OVERHEAD[modifiedConfig[remote].type] ??
+                DEFAULT_WARP_ROUTE_GAS_OVERHEAD
+              ).toString(),
+          ];
+        })
+      ),
+    };
+
+    const proxyFactoryFactories = ProxyFactoryFactoriesSchema.parse(
+      registryAddresses[chain]
+    );
+    if (existingRouters[chain]) {
+      // Existing routers keep their config, they only enroll the new ones
+      const newDomains = Object.keys(newConfig).map((remote) =>
+        multiProvider.getDomainId(remote).toString()
+      );
+      const { remoteRouters, destinationGas } = deployedConfig[chain];
+      await sendTransactions(
+        multiProvider,
+        chain,
+        createWarpRouterEnrollTxs({
+          chain,
+          router: routers[chain],
+          multiProvider,
+          proxyFactoryFactories,
+          actual,
+          remoteRouters: pick(remoteRouters!, newDomains),
+          destinationGas: pick(destinationGas!, newDomains),
+        })
+      );
+      continue;
+    }
+
+    const transactions = await createWarpRouterUpdateTxs({
+      chain,
+      router: routers[chain],
+      multiProvider,
+      proxyFactoryFactories,
+      actual,
+      expected: deployedConfig[chain],
+    });
+    await sendTransactions(multiProvider, chain, transactions);
+  }
 
   //   logGreen("✅ Warp contract deployments complete");
-  return deployedContracts;
+  return [routers, deployedConfig];
 }
 
 function generateTokenConfigs(
   warpCoreConfig: WarpCoreConfig,
   warpDeployConfig: WarpRouteDeployConfigMailboxRequired,
-  contracts: HyperlaneContractsMap<TokenFactories>,
+  routers: ChainMap<Address>,
   symbol: string,
   name: string,
   decimals: number
 ): void {
-  for (const [chainName, contract] of Object.entries(contracts)) {
+  for (const [chainName, router] of Object.entries(routers)) {
     const config = warpDeployConfig[chainName];
     const collateralAddressOrDenom =
       isCollateralTokenConfig(config) || isXERC20TokenConfig(config)
@@ -251,9 +560,7 @@ function generateTokenConfigs(
       decimals,
       symbol: config.symbol || symbol,
       name,
-      addressOrDenom:
-        contract[warpDeployConfig[chainName].type as keyof TokenFactories]
-          .address,
+      addressOrDenom: router,
       collateralAddressOrDenom,
     });
   }
@@ -283,7 +590,7 @@ function fullyConnectTokens(warpCoreConfig: WarpCoreConfig): void {
 export async function getWarpCoreConfig(
   warpDeployConfig: WarpRouteDeployConfig,
   multiProvider: MultiProvider,
-  contracts: HyperlaneContractsMap<TokenFactories>
+  routers: ChainMap<Address>
 ): Promise<{
   warpCoreConfig: WarpCoreConfig;
   addWarpRouteOptions?: AddWarpRouteOptions;
@@ -305,7 +612,7 @@ export async function getWarpCoreConfig(
   generateTokenConfigs(
     warpCoreConfig,
     warpDeployConfig,
-    contracts,
+    routers,
     symbol,
     name,
     decimals
@@ -320,29 +627,100 @@ export async function deployWarpRoute({
   registry,
   multiProvider,
   warpRouteDeployConfig: warpRouteConfig,
-  filePath,
 }: {
-  registry: BaseRegistry;
+  registry: LocalRegistry;
   chainMetadata: ChainMap<ChainMetadata>;
   multiProvider: MultiProvider;
   warpRouteDeployConfig: WarpRouteDeployConfig;
-  filePath: string;
-}): Promise<WarpCoreConfig> {
-  const deployedContracts = await executeDeploy(
+}): Promise<[string, WarpCoreConfig]> {
+  const [routers, deployedConfig] = await executeDeploy(
     warpRouteConfig,
     multiProvider,
     registry
   );
 
-  const { warpCoreConfig } = await getWarpCoreConfig(
-    warpRouteConfig,
+  const { warpCoreConfig, addWarpRouteOptions } = await getWarpCoreConfig(
+    deployedConfig,
+    multiProvider,
+    routers
+  );
+
+  // The route and its deploy config are stored under the same ID
+  const routeId = registry.generateRouteId(
+    warpCoreConfig,
+    addWarpRouteOptions?.symbol
+  );
+  await registry.addWarpRoute(warpCoreConfig, {
+    ...addWarpRouteOptions,
+    routeId,
+  });
+  await registry.addWarpRouteConfig(deployedConfig, routeId);
+
+  return [routeId, warpCoreConfig];
+}
+
+/**
+ * Deploys routers on the chains of the config that aren't part of the route
+ * yet and enrolls them with the existing routers in both directions. The
+ * extended route replaces the old one in the registry under the same ID.
+ */
+export async function extendWarpRoute({
+  registry,
+  multiProvider,
+  warpRouteDeployConfig,
+  routeId,
+}: {
+  registry: LocalRegistry;
+  multiProvider: MultiProvider;
+  warpRouteDeployConfig: WarpRouteDeployConfig;
+  routeId: string;
+}): Promise<WarpCoreConfig> {
+  const existingCoreConfig = await registry.getWarpRoute(routeId);
+  if (!existingCoreConfig) {
+    throw new Error(`No warp route found with ID ${routeId}`);
+  }
+
+  const existingRouters: ChainMap<Address> = Object.fromEntries(
+    existingCoreConfig.tokens
+      .filter((token) => token.addressOrDenom)
+      .map((token) => [token.chainName, token.addressOrDenom!])
+  );
+  const missingChains = Object.keys(existingRouters).filter(
+    (chain) => !warpRouteDeployConfig[chain]
+  );
+  if (missingChains.length > 0) {
+    throw new Error(
+      `Config of the existing chains is required: ${missingChains.join(', ')}`
+    );
+  }
+
+  const [routers, deployedConfig] = await executeDeploy(
+    warpRouteDeployConfig,
     multiProvider,
-    deployedContracts
+    registry,
+    existingRouters
+  );
+
+  const newRouters: ChainMap<Address> = Object.fromEntries(
+    Object.entries(routers).filter(([chain]) => !existingRouters[chain])
   );
+  const { warpCoreConfig: newCoreConfig } = await getWarpCoreConfig(
+    deployedConfig,
+    multiProvider,
+    newRouters
+  );
+
+  // Connections are rebuilt so every token connects to the new ones as well
+  const warpCoreConfig: WarpCoreConfig = {
+    ...existingCoreConfig,
+    tokens: [...existingCoreConfig.tokens, ...newCoreConfig.tokens].map(
+      ({ connections: _, ...token }) => token
+    ),
+  };
+  fullyConnectTokens(warpCoreConfig);
 
-  // NOT IMPLEMENTED YE
-  // await registry.addWarpRoute(warpCoreConfig);
-  await fs.promises.writeFile(filePath, stringify(warpCoreConfig, null, 2));
+  await registry.addWarpRoute(warpCoreConfig, { routeId });
+  await registry.addWarpRouteConfig(deployedConfig, routeId);
 
   return warpCoreConfig;
 }